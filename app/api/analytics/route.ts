@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { DATE_PATTERN } from '@/lib/attendance'
+import { requireRole } from '@/lib/server/auth'
+import { HttpError, handleRoute } from '@/lib/server/http'
+import { collectAnalytics } from '@/lib/server/analytics'
+
+export const dynamic = 'force-dynamic'
+
+// Teachers see their own classes only.
+export const GET = handleRoute(async (request: Request) => {
+  const principal = await requireRole(request, 'admin', 'teacher')
+  const params = new URL(request.url).searchParams
+  const from = params.get('from') ?? ''
+  const to = params.get('to') ?? ''
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+    throw new HttpError(400, '"from" and "to" must be dates in YYYY-MM-DD format')
+  }
+  if (from > to) throw new HttpError(400, '"from" cannot be after "to"')
+
+  const analytics = await collectAnalytics(from, to, principal.role === 'teacher' ? principal.sub : undefined)
+  return NextResponse.json({ analytics })
+})
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { assertCanManage, requireRole } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { getAuditEntry, readSnapshot } from '@/lib/server/audit'
+import { getSession } from '@/lib/server/sessions'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  const principal = await requireRole(request, 'admin', 'teacher')
+  if (principal.role === 'teacher') {
+    assertCanManage(principal, await getSession((await getAuditEntry(params.id)).sessionId))
+  }
+  const image = await readSnapshot(params.id)
+  return new NextResponse(image, {
+    headers: {
+      'Content-Type': 'image/jpeg',
+      // Snapshots never change once written.
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    },
+  })
+})
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { assertCanManage, requireRole } from '@/lib/server/auth'
+import { HttpError, handleRoute } from '@/lib/server/http'
+import { auditToCsv, listAudit } from '@/lib/server/audit'
+import { getSession } from '@/lib/server/sessions'
+
+export const dynamic = 'force-dynamic'
+
+// Teachers read the log of one of their sessions at a time.
+export const GET = handleRoute(async (request: Request) => {
+  const principal = await requireRole(request, 'admin', 'teacher')
+  const params = new URL(request.url).searchParams
+  const format = params.get('format') ?? 'json'
+  if (format !== 'json' && format !== 'csv') throw new HttpError(400, '"format" must be json or csv')
+
+  const sessionId = params.get('sessionId') ?? undefined
+  if (principal.role === 'teacher') {
+    if (!sessionId) throw new HttpError(403, 'Only admins can read the whole audit log')
+    assertCanManage(principal, await getSession(sessionId))
+  }
+  const entries = await listAudit({
+    sessionId,
+    personId: params.get('personId') ?? undefined,
+  })
+  if (format === 'json') return NextResponse.json({ entries })
+
+  return new NextResponse(auditToCsv(entries), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="audit-log.csv"',
+    },
+  })
+})
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { setSessionCookie } from '@/lib/server/auth'
+import { handleRoute, readJson, requireString } from '@/lib/server/http'
+import { login } from '@/lib/server/users'
+
+export const POST = handleRoute(async (request: Request) => {
+  const body = await readJson(request)
+  const principal = await login(requireString(body, 'username'), requireString(body, 'password'))
+  return setSessionCookie(NextResponse.json({ principal }), principal)
+})
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/auth'
+import { handleRoute } from '@/lib/server/http'
+
+export const POST = handleRoute(async () => {
+  const response = NextResponse.json({ signedOut: true })
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+})
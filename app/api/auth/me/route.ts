@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { authenticate } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = handleRoute(async (request: Request) => {
+  const principal = await authenticate(request)
+  return NextResponse.json({ principal })
+})
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { setSessionCookie } from '@/lib/server/auth'
+import { handleRoute, readJson, requireString } from '@/lib/server/http'
+import { SESSION_TTL_MS } from '@/lib/server/tokens'
+import { createUser, hasUsers } from '@/lib/server/users'
+
+export const dynamic = 'force-dynamic'
+
+// Whether the first admin account still has to be created.
+export const GET = handleRoute(async () => {
+  return NextResponse.json({ needed: !(await hasUsers()) })
+})
+
+// Creates the first admin account and signs it in. Refused once any account
+// exists.
+export const POST = handleRoute(async (request: Request) => {
+  const body = await readJson(request)
+  const user = await createUser({
+    username: requireString(body, 'username'),
+    name: requireString(body, 'name'),
+    role: 'admin',
+    password: typeof body.password === 'string' ? body.password : '',
+  }, { onlyIfFirst: true })
+  const principal = { sub: user.id, role: user.role, name: user.name, exp: Date.now() + SESSION_TTL_MS }
+  return setSessionCookie(NextResponse.json({ principal }, { status: 201 }), principal)
+})
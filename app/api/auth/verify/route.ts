@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { authenticate } from '@/lib/server/auth'
+import { HttpError, handleRoute, readJson, requireString } from '@/lib/server/http'
+import { login } from '@/lib/server/users'
+
+/**
+ * Checks a staff member's username and password without signing in as
+ * them, so a kiosk can unlock its controls and keep its own sign-in. A
+ * wrong password is a 403 rather than a 401, which would mean the kiosk
+ * itself was signed out.
+ */
+export const POST = handleRoute(async (request: Request) => {
+  await authenticate(request)
+  const body = await readJson(request)
+  const staff = await login(requireString(body, 'username'), requireString(body, 'password')).catch(err => {
+    throw err instanceof HttpError && err.status === 401 ? new HttpError(403, err.message) : err
+  })
+  return NextResponse.json({ name: staff.name })
+})
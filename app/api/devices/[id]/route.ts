@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { deleteDevice } from '@/lib/server/users'
+
+export const DELETE = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  await requireRole(request, 'admin')
+  await deleteDevice(params.id)
+  return NextResponse.json({ deleted: params.id })
+})
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { issueToken, requireRole } from '@/lib/server/auth'
+import { handleRoute, readJson, requireString } from '@/lib/server/http'
+import { createDevice, listDevices } from '@/lib/server/users'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  const devices = await listDevices()
+  return NextResponse.json({ devices })
+})
+
+// The token is only returned here; a lost token means registering the
+// device again.
+export const POST = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  const body = await readJson(request)
+  const device = await createDevice(requireString(body, 'name'))
+  const token = await issueToken({ sub: device.id, role: 'kiosk', name: device.name })
+  return NextResponse.json({ device, token }, { status: 201 })
+})
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { DATE_PATTERN } from '@/lib/attendance'
+import { assertCanManage, requireRole } from '@/lib/server/auth'
+import { HttpError, handleRoute } from '@/lib/server/http'
+import { EXPORT_FORMATS, collectExport, toCsv, toJson, toXlsx } from '@/lib/server/exports'
+import { getSession } from '@/lib/server/sessions'
+
+export const dynamic = 'force-dynamic'
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+}
+
+export const GET = handleRoute(async (request: Request) => {
+  const principal = await requireRole(request, 'admin', 'teacher')
+  const params = new URL(request.url).searchParams
+  const format = EXPORT_FORMATS.find(f => f === (params.get('format') ?? 'csv'))
+  if (!format) throw new HttpError(400, `"format" must be one of ${EXPORT_FORMATS.join(', ')}`)
+
+  const sessionId = params.get('sessionId') ?? undefined
+  const from = params.get('from') ?? undefined
+  const to = params.get('to') ?? undefined
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    throw new HttpError(400, '"from" and "to" must be dates in YYYY-MM-DD format')
+  }
+
+  if (sessionId) assertCanManage(principal, await getSession(sessionId))
+  // Date ranges only cover a teacher's own sessions.
+  const teacherId = principal.role === 'teacher' ? principal.sub : undefined
+  const data = await collectExport({ sessionId, from, to, teacherId })
+  const name = sessionId
+    ? `attendance-${data.sessions[0].className}-${data.sessions[0].date}`
+    : `attendance-${from}-to-${to}`
+  const filename = `${name.replace(/[^\w.-]+/g, '_')}.${format}`
+
+  const body = format === 'csv'
+    ? toCsv(data)
+    : format === 'xlsx'
+      ? await toXlsx(data)
+      : JSON.stringify(toJson(data), null, 2)
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  })
+})
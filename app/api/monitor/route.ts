@@ -0,0 +1,82 @@
+import { requireRole } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { monitorSnapshot, subscribeMonitor } from '@/lib/server/monitoring'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Silence has to be noticed without any event, so the snapshot is also
+// rebuilt on a timer.
+const REFRESH_MS = 5_000
+const KEEPALIVE_MS = 20_000
+// Check-ins arrive in bursts; one update covers them all.
+const BATCH_MS = 250
+
+/**
+ * Server-Sent Events stream of the monitor snapshot: every open session's
+ * attendance and the status of the devices checking people in. A new event
+ * is sent whenever the snapshot changes.
+ */
+export const GET = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  const encoder = new TextEncoder()
+  let stop = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let last = ''
+      let closed = false
+      let pending: ReturnType<typeof setTimeout> | null = null
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+      const refresh = async () => {
+        pending = null
+        try {
+          const data = JSON.stringify(await monitorSnapshot())
+          if (data === last) return
+          last = data
+          send(`data: ${data}\n\n`)
+        } catch (err) {
+          console.error('Error building monitor snapshot:', err)
+        }
+      }
+      const schedule = () => {
+        if (!pending) pending = setTimeout(refresh, BATCH_MS)
+      }
+
+      const unsubscribe = subscribeMonitor(schedule)
+      const timer = setInterval(refresh, REFRESH_MS)
+      const keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_MS)
+      stop = () => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        clearInterval(timer)
+        clearInterval(keepalive)
+        if (pending) clearTimeout(pending)
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client going away.
+        }
+      }
+      request.signal.addEventListener('abort', stop)
+
+      send(`retry: ${REFRESH_MS}\n\n`)
+      refresh()
+    },
+    cancel() {
+      stop()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+})
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { authenticate } from '@/lib/server/auth'
+import { HttpError, handleRoute, readJson, requireNumber, requireString } from '@/lib/server/http'
+import { reportStatus } from '@/lib/server/monitoring'
+
+const optionalString = (body: Record<string, unknown>, key: string): string | null => {
+  const value = body[key]
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value !== 'string') throw new HttpError(400, `"${key}" must be a string`)
+  return value
+}
+
+const requireBoolean = (body: Record<string, unknown>, key: string): boolean => {
+  const value = body[key]
+  if (typeof value !== 'boolean') throw new HttpError(400, `"${key}" must be true or false`)
+  return value
+}
+
+// Heartbeat from a camera page or kiosk, shown on the live monitor.
+export const POST = handleRoute(async (request: Request) => {
+  const principal = await authenticate(request)
+  const body = await readJson(request)
+  const device = reportStatus(principal, {
+    clientId: requireString(body, 'clientId'),
+    sessionId: optionalString(body, 'sessionId'),
+    cameraRunning: requireBoolean(body, 'cameraRunning'),
+    modelsLoaded: requireBoolean(body, 'modelsLoaded'),
+    error: optionalString(body, 'error'),
+    fps: Math.max(0, requireNumber(body, 'fps')),
+  })
+  return NextResponse.json({ device })
+})
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { deletePerson } from '@/lib/server/people'
+
+// Erases the person's biometric data; attendance history is kept.
+export const DELETE = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  await requireRole(request, 'admin')
+  const erasure = await deletePerson(params.id)
+  return NextResponse.json({ deleted: params.id, erasure })
+})
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { DEFAULT_MIN_QUALITY } from '@/lib/face-quality'
+import { requireRole } from '@/lib/server/auth'
+import { HttpError, handleRoute } from '@/lib/server/http'
+import { importRoster } from '@/lib/server/roster-import'
+
+export const runtime = 'nodejs'
+
+const MAX_UPLOAD_BYTES = 200 * 1024 * 1024
+
+/**
+ * Bulk enrollment. Send multipart form data with the roster in `csv`
+ * (columns id, name, and optionally class and email), reference photos
+ * named by ID in one or more `photos` fields (image files or zip archives),
+ * `consentGivenBy` and optionally `consentNote` and `minQuality`.
+ */
+export const POST = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  const form = await request.formData().catch(() => {
+    throw new HttpError(400, 'Request body must be multipart form data')
+  })
+
+  const csv = form.get('csv')
+  if (!(csv instanceof File)) throw new HttpError(400, '"csv" is required')
+  const photos = form.getAll('photos').filter((value): value is File => value instanceof File)
+  if (photos.length === 0) throw new HttpError(400, '"photos" is required')
+  const size = photos.reduce((total, photo) => total + photo.size, csv.size)
+  if (size > MAX_UPLOAD_BYTES) throw new HttpError(413, 'Imports are limited to 200 MB')
+
+  // Face data is only stored with a record of consent.
+  const givenBy = form.get('consentGivenBy')
+  if (typeof givenBy !== 'string' || !givenBy.trim()) {
+    throw new HttpError(400, '"consentGivenBy" is required to enroll people')
+  }
+  const note = form.get('consentNote')
+
+  const minQualityField = form.get('minQuality')
+  const minQuality = typeof minQualityField === 'string' && minQualityField ? Number(minQualityField) : DEFAULT_MIN_QUALITY
+  if (!Number.isFinite(minQuality) || minQuality < 0 || minQuality > 1) {
+    throw new HttpError(400, '"minQuality" must be a number between 0 and 1')
+  }
+
+  const report = await importRoster({
+    csv: await csv.text(),
+    photos,
+    consent: {
+      givenBy: givenBy.trim(),
+      givenAt: new Date().toISOString(),
+      note: typeof note === 'string' ? note.trim() : '',
+    },
+    minQuality,
+  })
+  return NextResponse.json({ report })
+})
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/server/auth'
+import { HttpError, handleRoute, readJson, requireNumber, requireString } from '@/lib/server/http'
+import { listPeople, savePerson } from '@/lib/server/people'
+
+export const dynamic = 'force-dynamic'
+
+// Kiosks need the templates to recognize people.
+export const GET = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin', 'teacher', 'kiosk')
+  const people = await listPeople()
+  return NextResponse.json({ people })
+})
+
+export const POST = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  const body = await readJson(request)
+  const template = body.template
+  if (!Array.isArray(template) || template.length === 0 || !template.every(v => typeof v === 'number')) {
+    throw new HttpError(400, '"template" must be a non-empty array of numbers')
+  }
+  // Face data is only stored with a record of consent.
+  const consent = body.consent
+  if (!consent || typeof consent !== 'object' || Array.isArray(consent)) {
+    throw new HttpError(400, '"consent" is required to enroll someone')
+  }
+  const consentFields = consent as Record<string, unknown>
+  const person = await savePerson({
+    id: requireString(body, 'id'),
+    name: requireString(body, 'name'),
+    template,
+    sampleCount: requireNumber(body, 'sampleCount'),
+    enrolledAt: typeof body.enrolledAt === 'string' ? body.enrolledAt : new Date().toISOString(),
+    consent: {
+      givenBy: requireString(consentFields, 'givenBy'),
+      givenAt: new Date().toISOString(),
+      note: typeof consentFields.note === 'string' ? consentFields.note.trim() : '',
+    },
+  })
+  return NextResponse.json({ person }, { status: 201 })
+})
@@ -0,0 +1,148 @@
+import { NextResponse } from 'next/server'
+import { CheckInRecord } from '@/lib/attendance'
+import { PHOTO_RECOGNITION_ACTOR } from '@/lib/audit'
+import { DEFAULT_MATCH_THRESHOLD } from '@/lib/recognition'
+import { DEFAULT_MIN_QUALITY } from '@/lib/face-quality'
+import { assertCanManage, requireRole } from '@/lib/server/auth'
+import { HttpError, handleRoute } from '@/lib/server/http'
+import { listPeople } from '@/lib/server/people'
+import { getSession, recordCheckIn } from '@/lib/server/sessions'
+import { addUnknownFace } from '@/lib/server/unknown-faces'
+import { RecognizedFace, detectFaces, recognizeFaces } from '@/lib/server/face-pipeline'
+import { extractVideoFrames } from '@/lib/server/video'
+
+export const runtime = 'nodejs'
+
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024
+
+interface RecognizedPerson {
+  personId: string
+  name: string
+  confidence: number
+  // Number of frames the person was recognized in.
+  frames: number
+}
+
+/**
+ * Recognizes everyone in an uploaded class photo or short clip. Send
+ * multipart form data with `file`, and optionally `threshold`, `minQuality`,
+ * `sessionId` and `record=true` to check the recognized people in to that
+ * session.
+ */
+export const POST = handleRoute(async (request: Request) => {
+  const principal = await requireRole(request, 'admin', 'teacher')
+  const form = await request.formData().catch(() => {
+    throw new HttpError(400, 'Request body must be multipart form data')
+  })
+
+  const file = form.get('file')
+  if (!(file instanceof File)) throw new HttpError(400, '"file" is required')
+  if (file.size > MAX_UPLOAD_BYTES) throw new HttpError(413, 'Uploads are limited to 25 MB')
+  const isVideo = file.type.startsWith('video/')
+  if (!isVideo && !file.type.startsWith('image/')) {
+    throw new HttpError(415, '"file" must be an image or a video')
+  }
+
+  const thresholdField = form.get('threshold')
+  const threshold = typeof thresholdField === 'string' && thresholdField ? Number(thresholdField) : DEFAULT_MATCH_THRESHOLD
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+    throw new HttpError(400, '"threshold" must be a number between 0 and 1')
+  }
+
+  const minQualityField = form.get('minQuality')
+  const minQuality = typeof minQualityField === 'string' && minQualityField ? Number(minQualityField) : DEFAULT_MIN_QUALITY
+  if (!Number.isFinite(minQuality) || minQuality < 0 || minQuality > 1) {
+    throw new HttpError(400, '"minQuality" must be a number between 0 and 1')
+  }
+
+  const sessionId = form.get('sessionId')
+  const record = form.get('record') === 'true'
+  if (record && typeof sessionId !== 'string') {
+    throw new HttpError(400, '"sessionId" is required to record check-ins')
+  }
+  if (record) {
+    const session = await getSession(sessionId as string)
+    assertCanManage(principal, session)
+    if (session.status !== 'open') throw new HttpError(409, 'Session is not open')
+  }
+
+  const upload = new Uint8Array(await file.arrayBuffer())
+  const frames = isVideo ? await extractVideoFrames(upload) : [upload]
+  if (frames.length === 0) throw new HttpError(422, 'No frames could be read from the upload')
+
+  const roster = await listPeople()
+  const faces: (RecognizedFace & { frame: number })[] = []
+  for (let index = 0; index < frames.length; index++) {
+    const detected = await detectFaces(frames[index], minQuality)
+    recognizeFaces(detected, roster, threshold).forEach(face => faces.push({ ...face, frame: index }))
+  }
+
+  const people = new Map<string, RecognizedPerson>()
+  // The crop from each person's best match, for the audit log.
+  const snapshots = new Map<string, Uint8Array>()
+  for (const face of faces) {
+    if (!face.personId || !face.name || face.similarity === null) continue
+    const person = people.get(face.personId)
+    if (face.snapshot && (!person || face.similarity > person.confidence)) {
+      snapshots.set(face.personId, face.snapshot)
+    }
+    if (!person) {
+      people.set(face.personId, { personId: face.personId, name: face.name, confidence: face.similarity, frames: 1 })
+    } else {
+      person.confidence = Math.max(person.confidence, face.similarity)
+      person.frames++
+    }
+  }
+  const recognized = Array.from(people.values())
+
+  const checkIns: CheckInRecord[] = []
+  let unknownFaces = 0
+  if (record) {
+    const timestamp = new Date().toISOString()
+    const actor = `${PHOTO_RECOGNITION_ACTOR} (${principal.name})`
+    for (const person of recognized) {
+      checkIns.push(await recordCheckIn(sessionId as string, {
+        personId: person.personId,
+        name: person.name,
+        timestamp,
+        confidence: person.confidence,
+      }, {
+        actor,
+        snapshot: snapshots.get(person.personId),
+      }))
+    }
+    // Good enough faces nobody matched are kept for review after the
+    // session. Failing to keep them does not undo the check-ins.
+    try {
+      for (const face of faces) {
+        if (face.personId || !face.descriptor || !face.quality?.passed) continue
+        const kept = await addUnknownFace(sessionId as string, {
+          descriptor: face.descriptor,
+          quality: face.quality.score,
+          seenAt: timestamp,
+          capturedBy: actor,
+          snapshot: face.snapshot ?? undefined,
+        })
+        if (kept) unknownFaces++
+      }
+    } catch (err) {
+      console.error('Error keeping unknown faces:', err)
+    }
+  }
+
+  return NextResponse.json({
+    frames: frames.length,
+    faces: faces.map(face => ({
+      frame: face.frame,
+      box: face.box,
+      probability: face.probability,
+      quality: face.quality?.score ?? null,
+      personId: face.personId,
+      name: face.name,
+      similarity: face.similarity,
+    })),
+    recognized,
+    checkIns,
+    unknownFaces,
+  })
+})
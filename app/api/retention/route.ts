@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { purgeExpiredSnapshots, retentionDays } from '@/lib/server/retention'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  return NextResponse.json({ retentionDays: retentionDays() })
+})
+
+// Purges expired snapshots and unknown faces now, for running from a
+// scheduled job.
+export const POST = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  const deleted = await purgeExpiredSnapshots()
+  return NextResponse.json({ retentionDays: retentionDays(), deleted })
+})
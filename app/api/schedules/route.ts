@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { LATE_AFTER_MINUTES, TIME_PATTERN } from '@/lib/attendance'
+import { DEFAULT_OPEN_BEFORE_MINUTES } from '@/lib/schedules'
+import { requireRole } from '@/lib/server/auth'
+import { HttpError, handleRoute, readJson, requireNumber, requireString } from '@/lib/server/http'
+import { createSchedule, listSchedules } from '@/lib/server/schedules'
+
+export const dynamic = 'force-dynamic'
+
+const optionalMinutes = (body: Record<string, unknown>, key: string, fallback: number): number => {
+  if (body[key] === undefined) return fallback
+  const value = requireNumber(body, key)
+  if (value < 0) throw new HttpError(400, `"${key}" cannot be negative`)
+  return value
+}
+
+// Teachers see the classes they are in charge of.
+export const GET = handleRoute(async (request: Request) => {
+  const principal = await requireRole(request, 'admin', 'teacher')
+  const schedules = (await listSchedules())
+    .filter(schedule => principal.role === 'admin' || schedule.teacherId === principal.sub)
+  return NextResponse.json({ schedules })
+})
+
+export const POST = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  const body = await readJson(request)
+  const weekdays = body.weekdays
+  if (!Array.isArray(weekdays) || !weekdays.every(v => typeof v === 'number')) {
+    throw new HttpError(400, '"weekdays" must be an array of numbers')
+  }
+  const expectedIds = body.expectedIds ?? []
+  if (!Array.isArray(expectedIds) || !expectedIds.every(v => typeof v === 'string')) {
+    throw new HttpError(400, '"expectedIds" must be an array of person IDs')
+  }
+  const schedule = await createSchedule({
+    className: requireString(body, 'className'),
+    weekdays,
+    startTime: requireString(body, 'startTime', TIME_PATTERN),
+    endTime: requireString(body, 'endTime', TIME_PATTERN),
+    graceMinutes: optionalMinutes(body, 'graceMinutes', LATE_AFTER_MINUTES),
+    lateCutoffMinutes: body.lateCutoffMinutes === null || body.lateCutoffMinutes === undefined
+      ? null
+      : optionalMinutes(body, 'lateCutoffMinutes', 0),
+    openBeforeMinutes: optionalMinutes(body, 'openBeforeMinutes', DEFAULT_OPEN_BEFORE_MINUTES),
+    expectedIds,
+    teacherId: typeof body.teacherId === 'string' && body.teacherId ? body.teacherId : undefined,
+  })
+  return NextResponse.json({ schedule }, { status: 201 })
+})
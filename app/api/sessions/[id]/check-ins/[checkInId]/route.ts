@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { assertCanManage, authenticate } from '@/lib/server/auth'
+import { handleRoute, readJson, requireString } from '@/lib/server/http'
+import { getSession, reassignCheckIn } from '@/lib/server/sessions'
+
+// Reassigns a check-in matched to the wrong person.
+export const PATCH = handleRoute(async (
+  request: Request,
+  { params }: { params: { id: string; checkInId: string } },
+) => {
+  const principal = await authenticate(request)
+  assertCanManage(principal, await getSession(params.id))
+  const body = await readJson(request)
+  const checkIn = await reassignCheckIn(params.id, params.checkInId, requireString(body, 'personId'), {
+    reason: requireString(body, 'reason'),
+    by: principal.name,
+  })
+  return NextResponse.json({ checkIn })
+})
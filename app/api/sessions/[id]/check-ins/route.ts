@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { LIVE_RECOGNITION_ACTOR } from '@/lib/audit'
+import { assertCanView, authenticate } from '@/lib/server/auth'
+import { decodeSnapshot } from '@/lib/server/audit'
+import { handleRoute, readJson, requireNumber, requireString } from '@/lib/server/http'
+import { getSession, listCheckIns, recordCheckIn } from '@/lib/server/sessions'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  assertCanView(await authenticate(request), await getSession(params.id))
+  const checkIns = await listCheckIns(params.id)
+  return NextResponse.json({ checkIns })
+})
+
+export const POST = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  const principal = await authenticate(request)
+  const session = await getSession(params.id)
+  const body = await readJson(request)
+  const queued = body.queued === true
+  // A kiosk syncing its offline queue may find the session closed by now;
+  // recording checks the check-in was made while it was open.
+  if (!(queued && principal.role === 'kiosk')) assertCanView(principal, session)
+  const checkIn = await recordCheckIn(params.id, {
+    personId: requireString(body, 'personId'),
+    name: requireString(body, 'name'),
+    timestamp: typeof body.timestamp === 'string' ? body.timestamp : new Date().toISOString(),
+    confidence: requireNumber(body, 'confidence'),
+  }, {
+    // Which device or account ran the recognizer.
+    actor: `${LIVE_RECOGNITION_ACTOR} (${principal.name})`,
+    snapshot: typeof body.snapshot === 'string' ? decodeSnapshot(body.snapshot) : undefined,
+    queued,
+  })
+  return NextResponse.json({ checkIn }, { status: 201 })
+})
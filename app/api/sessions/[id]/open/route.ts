@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { assertCanManage, authenticate } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { getSession, openSession } from '@/lib/server/sessions'
+
+export const POST = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  assertCanManage(await authenticate(request), await getSession(params.id))
+  const session = await openSession(params.id)
+  return NextResponse.json({ session })
+})
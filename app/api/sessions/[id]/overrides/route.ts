@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { OVERRIDE_STATUSES } from '@/lib/attendance'
+import { assertCanManage, authenticate } from '@/lib/server/auth'
+import { HttpError, handleRoute, readJson, requireString } from '@/lib/server/http'
+import { getSession, listOverrides, setOverride } from '@/lib/server/sessions'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  assertCanManage(await authenticate(request), await getSession(params.id))
+  const overrides = await listOverrides(params.id)
+  return NextResponse.json({ overrides })
+})
+
+// A null status removes the override.
+export const PUT = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  const principal = await authenticate(request)
+  assertCanManage(principal, await getSession(params.id))
+  const body = await readJson(request)
+  const status = body.status === null ? null : OVERRIDE_STATUSES.find(s => s === body.status)
+  if (status === undefined) {
+    throw new HttpError(400, `"status" must be null or one of ${OVERRIDE_STATUSES.join(', ')}`)
+  }
+  const override = await setOverride(params.id, requireString(body, 'personId'), status, {
+    reason: requireString(body, 'reason'),
+    by: principal.name,
+  })
+  return NextResponse.json({ override })
+})
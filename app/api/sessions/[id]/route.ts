@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { assertCanView, authenticate } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { getSession, listCheckIns } from '@/lib/server/sessions'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  const principal = await authenticate(request)
+  const session = await getSession(params.id)
+  assertCanView(principal, session)
+  const checkIns = await listCheckIns(params.id)
+  return NextResponse.json({ session, checkIns })
+})
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { assertCanManage, authenticate } from '@/lib/server/auth'
+import { HttpError, handleRoute, readJson, requireString } from '@/lib/server/http'
+import { getSession } from '@/lib/server/sessions'
+import { discardCluster, identifyCluster } from '@/lib/server/unknown-faces'
+import { NewPersonFromCluster } from '@/lib/unknown-faces'
+
+type Params = { params: { id: string; clusterId: string } }
+
+const optionalFaceIds = (value: unknown): string[] | undefined => {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || !value.every(id => typeof id === 'string')) {
+    throw new HttpError(400, '"faceIds" must be an array of face IDs')
+  }
+  return value
+}
+
+/**
+ * Identifies a cluster. Send `personId` for someone enrolled, or `newPerson`
+ * with `id`, `name`, `consentGivenBy` and optionally `consentNote` to enroll
+ * them, plus `faceIds` to use only some of the faces.
+ */
+export const POST = handleRoute(async (request: Request, { params }: Params) => {
+  const principal = await authenticate(request)
+  assertCanManage(principal, await getSession(params.id))
+  const body = await readJson(request)
+
+  let newPerson: NewPersonFromCluster | undefined
+  if (body.newPerson !== undefined) {
+    if (!body.newPerson || typeof body.newPerson !== 'object' || Array.isArray(body.newPerson)) {
+      throw new HttpError(400, '"newPerson" must be an object')
+    }
+    const fields = body.newPerson as Record<string, unknown>
+    // Face data is only stored with a record of consent.
+    newPerson = {
+      id: requireString(fields, 'id'),
+      name: requireString(fields, 'name'),
+      consentGivenBy: requireString(fields, 'consentGivenBy'),
+      consentNote: typeof fields.consentNote === 'string' ? fields.consentNote.trim() : '',
+    }
+  }
+
+  const result = await identifyCluster(params.id, params.clusterId, {
+    personId: typeof body.personId === 'string' && body.personId ? body.personId : undefined,
+    newPerson,
+    faceIds: optionalFaceIds(body.faceIds),
+  }, principal.name)
+  return NextResponse.json(result)
+})
+
+// Deletes the cluster's faces unidentified, or only those given as
+// `faceId` query parameters.
+export const DELETE = handleRoute(async (request: Request, { params }: Params) => {
+  assertCanManage(await authenticate(request), await getSession(params.id))
+  const faceIds = new URL(request.url).searchParams.getAll('faceId')
+  const deleted = await discardCluster(params.id, params.clusterId, faceIds.length > 0 ? faceIds : undefined)
+  return NextResponse.json({ deleted })
+})
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { assertCanManage, authenticate } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { getSession } from '@/lib/server/sessions'
+import { listUnknownClusters } from '@/lib/server/unknown-faces'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  assertCanManage(await authenticate(request), await getSession(params.id))
+  const clusters = await listUnknownClusters(params.id)
+  return NextResponse.json({ clusters })
+})
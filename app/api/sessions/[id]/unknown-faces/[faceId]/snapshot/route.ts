@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { assertCanManage, authenticate } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { getSession } from '@/lib/server/sessions'
+import { readUnknownFaceSnapshot } from '@/lib/server/unknown-faces'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = handleRoute(async (
+  request: Request,
+  { params }: { params: { id: string; faceId: string } },
+) => {
+  assertCanManage(await authenticate(request), await getSession(params.id))
+  const image = await readUnknownFaceSnapshot(params.id, params.faceId)
+  return new NextResponse(image, {
+    headers: {
+      'Content-Type': 'image/jpeg',
+      // Snapshots never change once written.
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    },
+  })
+})
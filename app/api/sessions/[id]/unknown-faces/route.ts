@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { LIVE_RECOGNITION_ACTOR } from '@/lib/audit'
+import { DESCRIPTOR_LENGTH } from '@/lib/face-template'
+import { assertCanView, authenticate } from '@/lib/server/auth'
+import { decodeSnapshot } from '@/lib/server/audit'
+import { HttpError, handleRoute, readJson, requireNumber } from '@/lib/server/http'
+import { getSession } from '@/lib/server/sessions'
+import { addUnknownFace } from '@/lib/server/unknown-faces'
+
+// Faces the recognizer could not match, sent by the camera page and kiosks
+// for review after the session. Review goes through unknown-clusters.
+export const POST = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  const principal = await authenticate(request)
+  assertCanView(principal, await getSession(params.id))
+  const body = await readJson(request)
+  const descriptor = body.descriptor
+  if (
+    !Array.isArray(descriptor) ||
+    descriptor.length !== DESCRIPTOR_LENGTH ||
+    !descriptor.every(v => typeof v === 'number' && Number.isFinite(v))
+  ) {
+    throw new HttpError(400, `"descriptor" must be an array of ${DESCRIPTOR_LENGTH} numbers`)
+  }
+  const face = await addUnknownFace(params.id, {
+    descriptor,
+    quality: requireNumber(body, 'quality'),
+    seenAt: typeof body.seenAt === 'string' ? body.seenAt : new Date().toISOString(),
+    capturedBy: `${LIVE_RECOGNITION_ACTOR} (${principal.name})`,
+    snapshot: typeof body.snapshot === 'string' ? decodeSnapshot(body.snapshot) : undefined,
+  })
+  // Null when the face's cluster already had enough samples.
+  return NextResponse.json({ face }, { status: face ? 201 : 200 })
+})
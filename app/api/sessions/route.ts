@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { DATE_PATTERN, SessionStatus, TIME_PATTERN } from '@/lib/attendance'
+import { canView, requireRole } from '@/lib/server/auth'
+import { handleRoute, readJson, requireString } from '@/lib/server/http'
+import { createSession, listSessions, openSession } from '@/lib/server/sessions'
+
+export const dynamic = 'force-dynamic'
+
+const STATUSES: SessionStatus[] = ['scheduled', 'open', 'closed', 'missed']
+
+export const GET = handleRoute(async (request: Request) => {
+  const principal = await requireRole(request, 'admin', 'teacher', 'kiosk')
+  const status = new URL(request.url).searchParams.get('status')
+  const sessions = (await listSessions(STATUSES.find(s => s === status)))
+    .filter(session => canView(principal, session))
+  return NextResponse.json({ sessions })
+})
+
+// Teachers create sessions for themselves; admins may assign a teacher.
+export const POST = handleRoute(async (request: Request) => {
+  const principal = await requireRole(request, 'admin', 'teacher')
+  const body = await readJson(request)
+  let session = await createSession({
+    className: requireString(body, 'className'),
+    date: requireString(body, 'date', DATE_PATTERN),
+    startTime: requireString(body, 'startTime', TIME_PATTERN),
+    endTime: requireString(body, 'endTime', TIME_PATTERN),
+    teacherId: principal.role === 'teacher'
+      ? principal.sub
+      : typeof body.teacherId === 'string' && body.teacherId ? body.teacherId : undefined,
+  })
+  if (body.open === true) {
+    session = await openSession(session.id)
+  }
+  return NextResponse.json({ session }, { status: 201 })
+})
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { deleteUser } from '@/lib/server/users'
+
+export const DELETE = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  const principal = await requireRole(request, 'admin')
+  await deleteUser(params.id, principal.sub)
+  return NextResponse.json({ deleted: params.id })
+})
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { USER_ROLES } from '@/lib/auth'
+import { requireRole } from '@/lib/server/auth'
+import { HttpError, handleRoute, readJson, requireString } from '@/lib/server/http'
+import { createUser, listUsers } from '@/lib/server/users'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  const users = await listUsers()
+  return NextResponse.json({ users })
+})
+
+export const POST = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  const body = await readJson(request)
+  const role = USER_ROLES.find(r => r === body.role)
+  if (!role) throw new HttpError(400, `"role" must be one of ${USER_ROLES.join(', ')}`)
+  const user = await createUser({
+    username: requireString(body, 'username'),
+    name: requireString(body, 'name'),
+    role,
+    password: typeof body.password === 'string' ? body.password : '',
+  })
+  return NextResponse.json({ user }, { status: 201 })
+})
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { listDeliveries } from '@/lib/server/webhooks'
+
+export const dynamic = 'force-dynamic'
+
+// The webhook's most recent deliveries, newest first.
+export const GET = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  await requireRole(request, 'admin')
+  const deliveries = await listDeliveries(params.id)
+  return NextResponse.json({ deliveries })
+})
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/server/auth'
+import { HttpError, handleRoute, readJson, requireString } from '@/lib/server/http'
+import { WebhookChanges, deleteWebhook, requireEvents, updateWebhook } from '@/lib/server/webhooks'
+
+// Send only the fields to change: `url`, `events`, `description`, `active`.
+export const PATCH = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  await requireRole(request, 'admin')
+  const body = await readJson(request)
+  const changes: WebhookChanges = {}
+  if (body.url !== undefined) changes.url = requireString(body, 'url')
+  if (body.events !== undefined) changes.events = requireEvents(body)
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string') throw new HttpError(400, '"description" must be a string')
+    changes.description = body.description.trim()
+  }
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') throw new HttpError(400, '"active" must be true or false')
+    changes.active = body.active
+  }
+  const webhook = await updateWebhook(params.id, changes)
+  return NextResponse.json({ webhook })
+})
+
+export const DELETE = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  await requireRole(request, 'admin')
+  await deleteWebhook(params.id)
+  return NextResponse.json({ deleted: params.id })
+})
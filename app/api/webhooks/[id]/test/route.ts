@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/server/auth'
+import { handleRoute } from '@/lib/server/http'
+import { sendTestEvent } from '@/lib/server/webhooks'
+
+// Sends a `webhook.test` event and answers once the receiver has.
+export const POST = handleRoute(async (request: Request, { params }: { params: { id: string } }) => {
+  await requireRole(request, 'admin')
+  const delivery = await sendTestEvent(params.id)
+  return NextResponse.json({ delivery })
+})
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/server/auth'
+import { handleRoute, readJson, requireString } from '@/lib/server/http'
+import { createWebhook, listWebhooks, requireEvents } from '@/lib/server/webhooks'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  const webhooks = await listWebhooks()
+  return NextResponse.json({ webhooks })
+})
+
+// The signing secret is only returned here; a lost secret means creating
+// the webhook again.
+export const POST = handleRoute(async (request: Request) => {
+  await requireRole(request, 'admin')
+  const body = await readJson(request)
+  const { webhook, secret } = await createWebhook({
+    url: requireString(body, 'url'),
+    events: requireEvents(body),
+    description: typeof body.description === 'string' ? body.description.trim() : '',
+  })
+  return NextResponse.json({ webhook, secret }, { status: 201 })
+})
@@ -0,0 +1,14 @@
+import type { Metadata } from "next";
+import DashboardComponent from "@/components/dashboard";
+
+export const metadata: Metadata = {
+  title: "Attendance dashboard",
+};
+
+export default function Dashboard() {
+  return (
+    <div className="min-h-screen p-8 pb-20 sm:p-20 font-[family-name:var(--font-geist-sans)]">
+      <DashboardComponent></DashboardComponent>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import KioskComponent from "@/components/kiosk";
+
+export const metadata: Metadata = {
+  title: "Attendance kiosk",
+};
+
+export default function Kiosk() {
+  return <KioskComponent></KioskComponent>;
+}
@@ -0,0 +1,14 @@
+import type { Metadata } from "next";
+import LoginForm from "@/components/login-form";
+
+export const metadata: Metadata = {
+  title: "Sign in",
+};
+
+export default function Login() {
+  return (
+    <div className="min-h-screen p-8 pb-20 sm:p-20 font-[family-name:var(--font-geist-sans)]">
+      <LoginForm></LoginForm>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import type { Metadata } from "next";
+import MonitorDashboard from "@/components/monitor-dashboard";
+
+export const metadata: Metadata = {
+  title: "Live monitor",
+};
+
+export default function Monitor() {
+  return (
+    <div className="min-h-screen p-8 pb-20 sm:p-20 font-[family-name:var(--font-geist-sans)]">
+      <MonitorDashboard></MonitorDashboard>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+import UnknownFaceReview from "@/components/unknown-face-review";
+
+export const metadata: Metadata = {
+  title: "Unknown faces",
+};
+
+// Linked from the camera page as /review?session=<id>.
+export default function Review({ searchParams }: { searchParams: { session?: string } }) {
+  return (
+    <div className="min-h-screen p-8 pb-20 sm:p-20 font-[family-name:var(--font-geist-sans)]">
+      <UnknownFaceReview initialSessionId={searchParams.session}></UnknownFaceReview>
+    </div>
+  );
+}
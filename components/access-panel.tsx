@@ -0,0 +1,136 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { KioskDevice, USER_ROLES, User, UserRole } from '@/lib/auth'
+
+interface AccessPanelProps {
+  users: User[]
+  devices: KioskDevice[]
+  currentUserId: string
+  error: string | null
+  onAddUser: (input: { username: string; name: string; role: UserRole; password: string }) => Promise<boolean>
+  onRemoveUser: (id: string) => void
+  onRegisterDevice: (name: string) => Promise<string | null>
+  onRemoveDevice: (id: string) => void
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  teacher: 'Teacher',
+}
+
+/**
+ * Staff accounts and the kiosk devices allowed to check people in.
+ */
+export default function AccessPanel({
+  users,
+  devices,
+  currentUserId,
+  error,
+  onAddUser,
+  onRemoveUser,
+  onRegisterDevice,
+  onRemoveDevice,
+}: AccessPanelProps) {
+  const [username, setUsername] = useState('')
+  const [name, setName] = useState('')
+  const [role, setRole] = useState<UserRole>('teacher')
+  const [password, setPassword] = useState('')
+  const [deviceName, setDeviceName] = useState('')
+  // Shown once after registering, to paste into the kiosk.
+  const [newToken, setNewToken] = useState<{ device: string; token: string } | null>(null)
+
+  const handleAddUser = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const added = await onAddUser({ username: username.trim(), name: name.trim(), role, password })
+    if (added) {
+      setUsername('')
+      setName('')
+      setPassword('')
+    }
+  }
+
+  const handleRegister = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const token = await onRegisterDevice(deviceName.trim())
+    if (token) {
+      setNewToken({ device: deviceName.trim(), token })
+      setDeviceName('')
+    }
+  }
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">Accounts and devices</h2>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <ul className="text-sm space-y-1">
+        {users.map(user => (
+          <li key={user.id} className="flex items-center justify-between gap-2">
+            <span>
+              {user.name} <span className="text-xs text-gray-500">{user.username}, {ROLE_LABELS[user.role]}</span>
+            </span>
+            <Button
+              onClick={() => onRemoveUser(user.id)}
+              disabled={user.id === currentUserId}
+              variant="outline"
+              size="sm"
+            >
+              Remove
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleAddUser} className="space-y-2">
+        <div className="flex gap-2">
+          <Input placeholder="Username" value={username} onChange={e => setUsername(e.target.value)} />
+          <Input placeholder="Full name" value={name} onChange={e => setName(e.target.value)} />
+        </div>
+        <div className="flex gap-2">
+          <Input
+            type="password"
+            placeholder="Password (10+ characters)"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+          />
+          <select
+            className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+            value={role}
+            onChange={e => setRole(e.target.value as UserRole)}
+          >
+            {USER_ROLES.map(value => (
+              <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+        <Button type="submit" size="sm" disabled={!username.trim() || !name.trim() || !password}>
+          Add account
+        </Button>
+      </form>
+      <h3 className="text-md font-semibold">Kiosk devices</h3>
+      <ul className="text-sm space-y-1">
+        {devices.map(device => (
+          <li key={device.id} className="flex items-center justify-between gap-2">
+            <span>{device.name}</span>
+            <Button onClick={() => onRemoveDevice(device.id)} variant="outline" size="sm">
+              Revoke
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleRegister} className="flex gap-2">
+        <Input placeholder="Device name, e.g. Room 12 door" value={deviceName} onChange={e => setDeviceName(e.target.value)} />
+        <Button type="submit" size="sm" disabled={!deviceName.trim()}>
+          Register
+        </Button>
+      </form>
+      {newToken && (
+        <div className="text-xs space-y-1">
+          <p>Token for {newToken.device}. Enter it on the kiosk now; it is not shown again.</p>
+          <Input readOnly value={newToken.token} onFocus={e => e.target.select()} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+'use client'
+
+import { GroupSummary, StatusCounts } from '@/lib/analytics'
+
+interface AttendanceChartProps {
+  title: string
+  groups: GroupSummary[]
+}
+
+const SEGMENTS: { key: keyof Omit<StatusCounts, 'sessions' | 'rate'>; label: string; className: string }[] = [
+  { key: 'onTime', label: 'On time', className: 'bg-green-500' },
+  { key: 'late', label: 'Late', className: 'bg-yellow-400' },
+  { key: 'tooLate', label: 'Too late', className: 'bg-orange-500' },
+  { key: 'excused', label: 'Excused', className: 'bg-sky-300' },
+  { key: 'absent', label: 'Absent', className: 'bg-gray-300' },
+]
+
+/**
+ * One stacked bar per group, split by attendance status.
+ */
+export default function AttendanceChart({ title, groups }: AttendanceChartProps) {
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {groups.length === 0 ? (
+        <p className="text-xs text-gray-600">No finished sessions in this range.</p>
+      ) : (
+        <div className="space-y-2">
+          {groups.map(group => (
+            <div key={group.key} className="flex items-center gap-2 text-sm">
+              <span className="w-24 truncate" title={group.label}>{group.label}</span>
+              <div className="flex flex-1 h-4 rounded overflow-hidden bg-white">
+                {SEGMENTS.map(segment => group[segment.key] > 0 && (
+                  <div
+                    key={segment.key}
+                    className={segment.className}
+                    style={{ width: `${(group[segment.key] / group.sessions) * 100}%` }}
+                    title={`${segment.label}: ${group[segment.key]}`}
+                  />
+                ))}
+              </div>
+              <span className="w-12 text-right">{(group.rate * 100).toFixed(0)}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        {SEGMENTS.map(segment => (
+          <span key={segment.key} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${segment.className}`} />
+            {segment.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import StatusBadge, { STATUS_LABELS } from '@/components/status-badge'
+import { AttendanceOverride, AttendanceStatus, OVERRIDE_STATUSES, OverrideStatus } from '@/lib/attendance'
+import { Person } from '@/lib/roster'
+
+interface AttendanceEditorProps {
+  name: string
+  personId: string
+  status: AttendanceStatus
+  override?: AttendanceOverride
+  // Set when recognition checked this person in, so the match can be moved.
+  checkInId?: string
+  roster: Person[]
+  onOverride: (status: OverrideStatus | null, reason: string) => Promise<boolean>
+  onReassign: (personId: string, reason: string) => Promise<boolean>
+  onDone: () => void
+}
+
+type Change = 'status' | 'reassign'
+
+const OVERRIDE_LABELS: Record<OverrideStatus, string> = {
+  ...STATUS_LABELS,
+  'on-time': 'Present (on time)',
+}
+
+export default function AttendanceEditor({
+  name,
+  personId,
+  status,
+  override,
+  checkInId,
+  roster,
+  onOverride,
+  onReassign,
+  onDone,
+}: AttendanceEditorProps) {
+  const [change, setChange] = useState<Change>('status')
+  const [newStatus, setNewStatus] = useState<OverrideStatus | 'auto'>(override?.status ?? 'on-time')
+  const [targetId, setTargetId] = useState('')
+  const [reason, setReason] = useState('')
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const done = change === 'status'
+      ? await onOverride(newStatus === 'auto' ? null : newStatus, reason.trim())
+      : await onReassign(targetId, reason.trim())
+    if (done) onDone()
+  }
+
+  const ready = reason.trim() && (change === 'status' || targetId)
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-md p-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">
+          {name} <StatusBadge status={status} />
+        </span>
+        <Button type="button" onClick={onDone} variant="ghost" size="sm">Cancel</Button>
+      </div>
+      {override && (
+        <p className="text-xs text-gray-600">
+          Set by hand by {override.by}: {override.reason}
+        </p>
+      )}
+      {checkInId && (
+        <select
+          className="w-full h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+          value={change}
+          onChange={e => setChange(e.target.value as Change)}
+        >
+          <option value="status">Change status</option>
+          <option value="reassign">Wrong person: reassign the check-in</option>
+        </select>
+      )}
+      {change === 'status' ? (
+        <select
+          className="w-full h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+          value={newStatus}
+          onChange={e => setNewStatus(e.target.value as OverrideStatus | 'auto')}
+        >
+          {OVERRIDE_STATUSES.map(value => (
+            <option key={value} value={value}>{OVERRIDE_LABELS[value]}</option>
+          ))}
+          {override && <option value="auto">Back to recognition</option>}
+        </select>
+      ) : (
+        <select
+          className="w-full h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+          value={targetId}
+          onChange={e => setTargetId(e.target.value)}
+        >
+          <option value="" disabled>Who was actually seen?</option>
+          {roster.filter(person => person.id !== personId).map(person => (
+            <option key={person.id} value={person.id}>{person.name}</option>
+          ))}
+        </select>
+      )}
+      <Input placeholder="Reason" value={reason} onChange={e => setReason(e.target.value)} />
+      <Button type="submit" size="sm" disabled={!ready}>
+        Save
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import Image from 'next/image'
+import { Download } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { AttendanceSession } from '@/lib/attendance'
+import { AuditAction, AuditEntry } from '@/lib/audit'
+import { Person } from '@/lib/roster'
+
+interface AuditLogPanelProps {
+  session: AttendanceSession | null
+  entries: AuditEntry[]
+  roster: Person[]
+  error: string | null
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'check-in': 'Checked in',
+  'absent': 'Marked absent',
+  'override': 'Status set by hand',
+  'clear-override': 'Returned to recognition',
+  'reassign': 'Check-in reassigned',
+}
+
+export default function AuditLogPanel({ session, entries, roster, error }: AuditLogPanelProps) {
+  const nameOf = (personId: string | null) =>
+    personId === null ? '—' : roster.find(person => person.id === personId)?.name ?? personId
+
+  // Reassignments record the people involved; other changes record statuses.
+  const describe = (entry: AuditEntry) =>
+    entry.action === 'reassign'
+      ? `${nameOf(entry.oldValue)} → ${nameOf(entry.newValue)}`
+      : `${nameOf(entry.personId)}: ${entry.oldValue ?? '—'} → ${entry.newValue ?? '—'}`
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Audit log</h2>
+        {session && (
+          <Button asChild size="sm" variant="outline">
+            <a href={`/api/audit?${new URLSearchParams({ sessionId: session.id, format: 'csv' })}`} download>
+              <Download />
+              CSV
+            </a>
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {!session ? (
+        <p className="text-xs text-gray-600">Select a session to see its changes.</p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-gray-600">No changes recorded yet.</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto space-y-2 text-sm">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex gap-2">
+              {entry.hasSnapshot && (
+                <Image
+                  src={`/api/audit/${entry.id}/snapshot`}
+                  alt={`Face recognized as ${nameOf(entry.personId)}`}
+                  width={40}
+                  height={40}
+                  unoptimized
+                  className="rounded"
+                />
+              )}
+              <div>
+                <p>
+                  <span className="font-medium">{ACTION_LABELS[entry.action]}</span> {describe(entry)}
+                </p>
+                <p className="text-xs text-gray-600">
+                  {new Date(entry.timestamp).toLocaleString()} by {entry.actor}
+                  {entry.reason && ` — ${entry.reason}`}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+'use client'
+
+import { BACKEND_LABELS, BackendId, BackendPreference } from '@/lib/pipeline-protocol'
+
+interface BackendPanelProps {
+  preference: BackendPreference | null
+  onPreferenceChange: (preference: BackendPreference) => void
+  backend: BackendId | null
+  fallbacks: string[]
+}
+
+export default function BackendPanel({
+  preference,
+  onPreferenceChange,
+  backend,
+  fallbacks,
+}: BackendPanelProps) {
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">Inference backend</h2>
+      <select
+        className="w-full h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+        value={preference ?? 'auto'}
+        onChange={e => onPreferenceChange(e.target.value as BackendPreference)}
+        disabled={!preference}
+      >
+        {(Object.keys(BACKEND_LABELS) as BackendPreference[]).map(key => (
+          <option key={key} value={key}>{BACKEND_LABELS[key]}</option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-600">
+        {backend ? `Running on ${BACKEND_LABELS[backend]}.` : 'Loading...'}
+        {' '}Changing the backend reloads the models.
+      </p>
+      {fallbacks.length > 0 && (
+        <ul className="text-xs text-yellow-700 space-y-1">
+          {fallbacks.map(failure => (
+            <li key={failure}>Skipped {failure}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+'use client'
+
+import { useState, useRef, useEffect, useCallback } from 'react'
+import { PipelineStats, useFrameLoop } from '@/hooks/use-face-pipeline'
+import { CameraSettings, videoConstraints } from '@/lib/camera-devices'
+import { alignFace, alignmentCorners } from '@/lib/face-alignment'
+import { PipelineResult } from '@/lib/pipeline-protocol'
+
+export interface FeedStatus {
+  live: boolean
+  // Camera or frame loop failure; model loading errors are the caller's.
+  error: string | null
+}
+
+interface CameraFeedProps {
+  worker: Worker | null
+  settings: CameraSettings
+  isStreaming: boolean
+  isLoading: boolean
+  pipelineError: string | null
+  onResult: (streamId: string, result: PipelineResult) => void
+  onStarted: () => void
+  onStats: (streamId: string, stats: PipelineStats) => void
+  onStatus?: (streamId: string, status: FeedStatus) => void
+  // When set, a camera that fails to open or drops out is retried after
+  // this long instead of staying off.
+  autoRestartMs?: number
+  className?: string
+}
+
+/**
+ * One camera and its overlay. The stream is reopened whenever the device,
+ * resolution or facing mode changes; the models stay loaded in the shared
+ * worker, so switching only restarts tracking for this feed.
+ */
+export default function CameraFeed({
+  worker,
+  settings,
+  isStreaming,
+  isLoading,
+  pipelineError,
+  onResult,
+  onStarted,
+  onStats,
+  onStatus,
+  autoRestartMs,
+  className = 'w-full aspect-video',
+}: CameraFeedProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [isLive, setIsLive] = useState(false)
+  const [cameraError, setCameraError] = useState<string | null>(null)
+  // Bumped to reopen the camera after a failure.
+  const [attempt, setAttempt] = useState(0)
+  const { id: streamId, deviceId, resolution, facingMode } = settings
+
+  useEffect(() => {
+    if (!isStreaming) return
+
+    let cancelled = false
+    let stream: MediaStream | null = null
+    let restartId: ReturnType<typeof setTimeout> | undefined
+    const video = videoRef.current
+    const canvas = canvasRef.current
+
+    const scheduleRestart = () => {
+      if (cancelled || autoRestartMs === undefined || restartId) return
+      restartId = setTimeout(() => setAttempt(current => current + 1), autoRestartMs)
+    }
+
+    navigator.mediaDevices.getUserMedia({
+      video: videoConstraints({ id: streamId, deviceId, resolution, facingMode }),
+    })
+      .then(opened => {
+        if (cancelled) {
+          opened.getTracks().forEach(track => track.stop())
+          return
+        }
+        stream = opened
+        // Unplugging the camera or another app taking it ends the track.
+        opened.getVideoTracks().forEach(track => {
+          track.onended = () => {
+            setIsLive(false)
+            setCameraError('The camera stopped.')
+            scheduleRestart()
+          }
+        })
+        if (!video) return
+        video.srcObject = opened
+        video.onloadedmetadata = () => {
+          video.play().catch(err => console.error('Error playing the camera stream:', err))
+          setIsLive(true)
+          onStarted()
+        }
+        setCameraError(null)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Error accessing the camera:', err)
+        setCameraError('Failed to access the camera. Please make sure you have given permission.')
+        scheduleRestart()
+      })
+
+    return () => {
+      cancelled = true
+      if (restartId) clearTimeout(restartId)
+      stream?.getTracks().forEach(track => {
+        track.onended = null
+        track.stop()
+      })
+      if (video) {
+        video.onloadedmetadata = null
+        video.srcObject = null
+      }
+      setIsLive(false)
+      canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    }
+  }, [isStreaming, streamId, deviceId, resolution, facingMode, onStarted, autoRestartMs, attempt])
+
+  const drawOverlay = useCallback((result: PipelineResult) => {
+    const video = videoRef.current
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!video || !canvas || !ctx) return
+
+    canvas.width = video.clientWidth
+    canvas.height = video.clientHeight
+
+    // The video is drawn with object-cover: scaled evenly to fill the element
+    // and centered, so the overflow on one axis is cut off.
+    const scale = Math.max(video.clientWidth / video.videoWidth, video.clientHeight / video.videoHeight)
+    const offsetX = (video.clientWidth - video.videoWidth * scale) / 2
+    const offsetY = (video.clientHeight - video.videoHeight * scale) / 2
+    const toCanvas = ([x, y]: [number, number]): [number, number] => [x * scale + offsetX, y * scale + offsetY]
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    ctx.fillStyle = 'rgba(255, 0, 0, 0.5)'
+    ctx.strokeStyle = '#FF0000'
+    ctx.lineWidth = 2
+
+    // Outline exactly the region the pipeline crops, rotated with the head.
+    for (const face of result.detections) {
+      const corners = alignmentCorners(alignFace(face))
+      ctx.beginPath()
+      corners.map(toCanvas).forEach(([x, y], index) => {
+        if (index === 0) ctx.moveTo(x, y)
+        else ctx.lineTo(x, y)
+      })
+      ctx.closePath()
+      ctx.stroke()
+
+      face.landmarks.forEach((landmark) => {
+        ctx.beginPath()
+        const [x, y] = toCanvas(landmark)
+        ctx.arc(x, y, 3, 0, 2 * Math.PI)
+        ctx.fill()
+      })
+    }
+
+    for (const { detection, identity, liveness } of result.faces) {
+      const [x, y] = toCanvas(alignmentCorners(alignFace(detection))[0])
+      const label = !identity
+        ? 'Unknown'
+        : liveness?.passed
+          ? `${identity.name} ✓ live`
+          : `${identity.name}: ${liveness?.prompt ?? 'checking liveness'}`
+      ctx.font = '16px sans-serif'
+      ctx.fillStyle = !identity ? '#FF0000' : liveness?.passed ? '#16A34A' : '#CA8A04'
+      ctx.fillText(label, x, y - 6)
+    }
+  }, [])
+
+  const handleResult = useCallback((result: PipelineResult) => {
+    drawOverlay(result)
+    onResult(streamId, result)
+  }, [drawOverlay, onResult, streamId])
+
+  const { error: frameError, stats } = useFrameLoop(worker, streamId, videoRef, {
+    isStreaming: isLive,
+    onResult: handleResult,
+  })
+  const error = cameraError ?? pipelineError ?? frameError
+
+  useEffect(() => {
+    onStats(streamId, stats)
+  }, [onStats, streamId, stats])
+
+  useEffect(() => {
+    onStatus?.(streamId, { live: isLive, error: cameraError ?? frameError })
+  }, [onStatus, streamId, isLive, cameraError, frameError])
+
+  return (
+    <div className={`relative ${className} bg-gray-200 rounded-lg overflow-hidden`}>
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center text-red-500 text-center p-4 z-20">
+          {error}
+        </div>
+      )}
+      {isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center text-gray-500 text-center p-4 z-20">
+          Loading face detection models...
+        </div>
+      )}
+      <video
+        ref={videoRef}
+        className="absolute top-0 left-0 w-full h-full object-cover"
+        autoPlay
+        playsInline
+        muted
+      />
+      <canvas
+        ref={canvasRef}
+        className="absolute top-0 left-0 w-full h-full z-10"
+        style={{ pointerEvents: 'none' }}
+      />
+    </div>
+  )
+}
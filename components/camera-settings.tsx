@@ -0,0 +1,83 @@
+'use client'
+
+import { Button } from "@/components/ui/button"
+import { CameraSettings, FacingMode, MAX_CAMERAS, RESOLUTIONS, ResolutionKey } from '@/lib/camera-devices'
+
+interface CameraSettingsPanelProps {
+  feeds: CameraSettings[]
+  devices: MediaDeviceInfo[]
+  onChange: (settings: CameraSettings) => void
+  onAdd: () => void
+  onRemove: (id: string) => void
+}
+
+const selectClassName = 'h-9 rounded-md border border-input bg-transparent px-2 text-sm'
+
+export default function CameraSettingsPanel({
+  feeds,
+  devices,
+  onChange,
+  onAdd,
+  onRemove,
+}: CameraSettingsPanelProps) {
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">Cameras</h2>
+      {feeds.map((feed, index) => (
+        <div key={feed.id} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-md font-semibold">Camera {index + 1}</h3>
+            {index > 0 && (
+              <Button onClick={() => onRemove(feed.id)} variant="outline" size="sm">
+                Remove
+              </Button>
+            )}
+          </div>
+          <select
+            className={`w-full ${selectClassName}`}
+            value={feed.deviceId}
+            onChange={e => onChange({ ...feed, deviceId: e.target.value })}
+          >
+            <option value="">Default camera</option>
+            {devices.map((device, deviceIndex) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label || `Camera ${deviceIndex + 1}`}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <select
+              className={selectClassName}
+              value={feed.resolution}
+              onChange={e => onChange({ ...feed, resolution: e.target.value as ResolutionKey })}
+            >
+              <option value="auto">Auto resolution</option>
+              {Object.keys(RESOLUTIONS).map(key => (
+                <option key={key} value={key}>{key}</option>
+              ))}
+            </select>
+            <select
+              className={selectClassName}
+              value={feed.facingMode}
+              onChange={e => onChange({ ...feed, facingMode: e.target.value as FacingMode })}
+              disabled={feed.deviceId !== ''}
+              title={feed.deviceId !== '' ? 'Only used with the default camera' : undefined}
+            >
+              <option value="any">Any direction</option>
+              <option value="user">Front</option>
+              <option value="environment">Back</option>
+            </select>
+          </div>
+        </div>
+      ))}
+      {feeds.length < MAX_CAMERAS && (
+        <Button onClick={onAdd} variant="outline" size="sm">
+          Add camera
+        </Button>
+      )}
+      <p className="text-xs text-gray-600">
+        Check-ins from every camera go to the active session. Enrollment uses camera 1.
+      </p>
+    </div>
+  )
+}
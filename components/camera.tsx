@@ -1,240 +1,293 @@
 'use client'
 
-import { useState, useRef, useEffect, useCallback } from 'react'
+import { Fragment, useState, useRef, useEffect, useCallback, useMemo } from 'react'
+import Link from 'next/link'
 import { Button } from "@/components/ui/button"
-import * as blazeface from '@tensorflow-models/blazeface'
-import * as faceLandmarksDetection from '@tensorflow-models/face-landmarks-detection'
-import * as tf from '@tensorflow/tfjs-core'
-import '@tensorflow/tfjs-backend-webgl'
-
-interface FaceDetection {
-  topLeft: [number, number];
-  bottomRight: [number, number];
-  probability: [number];
-  landmarks: [number, number][];
+import EnrollmentPanel from '@/components/enrollment-panel'
+import RecognitionPanel from '@/components/recognition-panel'
+import SessionPanel from '@/components/session-panel'
+import RosterTable from '@/components/roster-table'
+import ExportPanel from '@/components/export-panel'
+import PhotoAttendancePanel from '@/components/photo-attendance-panel'
+import CameraFeed, { FeedStatus } from '@/components/camera-feed'
+import CameraSettingsPanel from '@/components/camera-settings'
+import BackendPanel from '@/components/backend-panel'
+import SchedulePanel from '@/components/schedule-panel'
+import AuditLogPanel from '@/components/audit-log-panel'
+import AccessPanel from '@/components/access-panel'
+import RosterImportPanel from '@/components/roster-import-panel'
+import WebhookPanel from '@/components/webhook-panel'
+import { useRoster } from '@/hooks/use-roster'
+import { useSessions } from '@/hooks/use-sessions'
+import { useSchedules } from '@/hooks/use-schedules'
+import { useAuditLog } from '@/hooks/use-audit-log'
+import { useCurrentUser } from '@/hooks/use-current-user'
+import { useAccess } from '@/hooks/use-access'
+import { useUnknownFaceCapture } from '@/hooks/use-unknown-face-capture'
+import { useStatusReport } from '@/hooks/use-status-report'
+import { PipelineStats, useInferenceWorker } from '@/hooks/use-face-pipeline'
+import { useVideoDevices } from '@/hooks/use-video-devices'
+import { useBackendPreference } from '@/hooks/use-backend-preference'
+import { buildTemplate } from '@/lib/face-template'
+import { DEFAULT_MATCH_THRESHOLD } from '@/lib/recognition'
+import { DEFAULT_MIN_QUALITY, FaceQuality } from '@/lib/face-quality'
+import { CheckIn } from '@/lib/attendance'
+import { Consent } from '@/lib/roster'
+import { CameraSettings, MAX_CAMERAS, defaultCameraSettings } from '@/lib/camera-devices'
+import { FaceDetection, PipelineConfig, PipelineFace, PipelineResult } from '@/lib/pipeline-protocol'
+
+interface EnrollmentTarget {
+  id: string;
+  name: string;
+  consent: Consent;
 }
 
-interface CroppedFace {
-  image: string;
-  landmarks: faceLandmarksDetection.Face[];
-}
+// Number of single-face captures averaged into a new person's template.
+const ENROLLMENT_SAMPLES = 5
+
+// Enrollment samples only come from the first camera, which cannot be removed.
+const PRIMARY_FEED_ID = 'camera-1'
+
+// Per-feed values, keyed by feed ID.
+type ByFeed<T> = Record<string, T>
+
+const withoutFeed = <T,>(values: ByFeed<T>, id: string): ByFeed<T> =>
+  Object.fromEntries(Object.entries(values).filter(([key]) => key !== id))
 
 export default function CameraComponent() {
-  const videoRef = useRef<HTMLVideoElement>(null)
-  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const { principal, signOut } = useCurrentUser()
+  // The roster, schedules and accounts are only managed by admins.
+  const isAdmin = principal?.role === 'admin'
+  const access = useAccess(isAdmin)
   const [isStreaming, setIsStreaming] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [blazefaceModel, setBlazefaceModel] = useState<blazeface.BlazeFaceModel | null>(null)
-  const [landmarkModel, setLandmarkModel] = useState<faceLandmarksDetection.FaceLandmarksDetector | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
-  const [predictions, setPredictions] = useState<FaceDetection[]>([])
-  const [croppedFaces, setCroppedFaces] = useState<CroppedFace[]>([])
-  const [debugInfo, setDebugInfo] = useState<string>('')
-
-  // Add scaleFactor and yScalerPos variables
-  const scaleFactor = 2
-  const yScalerPos = 0.85
+  const [feeds, setFeeds] = useState<CameraSettings[]>([defaultCameraSettings(PRIMARY_FEED_ID)])
+  const nextFeedRef = useRef(2)
+  const { devices, refresh: refreshDevices } = useVideoDevices()
+  const [predictions, setPredictions] = useState<ByFeed<FaceDetection[]>>({})
+  const [croppedFaces, setCroppedFaces] = useState<ByFeed<PipelineFace[]>>({})
+  const [feedStats, setFeedStats] = useState<ByFeed<PipelineStats>>({})
+  const [feedStatus, setFeedStatus] = useState<ByFeed<FeedStatus>>({})
+  const { roster, error: rosterError, enroll, remove, reload: reloadRoster } = useRoster()
+  const [enrollment, setEnrollment] = useState<EnrollmentTarget | null>(null)
+  const [enrollmentProgress, setEnrollmentProgress] = useState(0)
+  const [enrollmentStatus, setEnrollmentStatus] = useState('')
+  // Result handling reads these through refs so starting an enrollment does
+  // not have to wait for a re-render.
+  const enrollmentRef = useRef<EnrollmentTarget | null>(null)
+  const enrollmentSamplesRef = useRef<number[][]>([])
+  const [matchThreshold, setMatchThreshold] = useState(DEFAULT_MATCH_THRESHOLD)
+  const [minQuality, setMinQuality] = useState(DEFAULT_MIN_QUALITY)
+  const [requireChallenge, setRequireChallenge] = useState(false)
+  const {
+    sessions,
+    activeSession,
+    setActiveSessionId,
+    checkIns,
+    overrides,
+    error: sessionError,
+    pendingCount,
+    refusedCount,
+    isOffline,
+    refresh: refreshSessions,
+    create: createSession,
+    open: openSession,
+    close: closeSession,
+    recordCheckIn,
+    addRecords,
+    override: overrideAttendance,
+    reassign: reassignCheckIn,
+  } = useSessions()
+  const { schedules, error: scheduleError, create: createSchedule, remove: removeSchedule } = useSchedules()
+  const { entries: auditEntries, error: auditError, reload: reloadAudit } = useAuditLog(activeSession?.id ?? null)
+  const captureUnknownFaces = useUnknownFaceCapture(activeSession)
+
+  // Any change to the session's records adds to its audit log.
+  useEffect(() => {
+    reloadAudit()
+  }, [checkIns, overrides, activeSession?.status, reloadAudit])
+
+  // Adding a schedule can create and open today's session straight away.
+  const addSchedule = async (input: Parameters<typeof createSchedule>[0]) => {
+    const created = await createSchedule(input)
+    if (created) refreshSessions()
+    return created
+  }
 
-  const startCamera = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: true })
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream
-        videoRef.current.onloadedmetadata = () => {
-          videoRef.current?.play()
-          setIsStreaming(true)
-        }
-        setError(null)
-      }
-    } catch (err) {
-      console.error('Error accessing the camera:', err)
-      setError('Failed to access the camera. Please make sure you have given permission.')
-      setIsLoading(false)
-    }
+  const startCamera = () => {
+    setIsStreaming(true)
   }
 
   const stopCamera = () => {
-    if (videoRef.current && videoRef.current.srcObject) {
-      const tracks = (videoRef.current.srcObject as MediaStream).getTracks()
-      tracks.forEach(track => track.stop())
-      videoRef.current.srcObject = null
-      setIsStreaming(false)
-      setPredictions([])
-      setCroppedFaces([])
-      setDebugInfo('')
-    }
+    setIsStreaming(false)
+    setPredictions({})
+    setCroppedFaces({})
+    enrollmentRef.current = null
+    enrollmentSamplesRef.current = []
+    setEnrollment(null)
+    setEnrollmentProgress(0)
   }
 
-  const loadModels = async () => {
-    try {
-      await tf.setBackend('webgl')
-      const blazefaceLoadedModel = await blazeface.load()
-      setBlazefaceModel(blazefaceLoadedModel)
-      
-      const landmarkLoadedModel = await faceLandmarksDetection.createDetector(
-        faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh,
-        {
-          runtime: 'tfjs',
-          refineLandmarks: true,
-          maxFaces: 1
-        }
-      )
-      setLandmarkModel(landmarkLoadedModel)
-      
-      setIsLoading(false)
-      setDebugInfo('Models loaded successfully')
-    } catch (err) {
-      console.error('Error loading the models:', err)
-      setError('Failed to load the face detection models.')
-      setDebugInfo(`Error loading models: ${err}`)
-      setIsLoading(false)
-    }
+  const updateFeed = (settings: CameraSettings) => {
+    setFeeds(current => current.map(feed => (feed.id === settings.id ? settings : feed)))
   }
 
-  const cropFace = (video: HTMLVideoElement, face: FaceDetection): HTMLCanvasElement => {
-    const tempCanvas = document.createElement('canvas')
-    const tempCtx = tempCanvas.getContext('2d')
-    if (!tempCtx) return tempCanvas
-
-    const [x, y] = face.topLeft
-    const width = face.bottomRight[0] - face.topLeft[0]
-    const height = face.bottomRight[1] - face.topLeft[1]
-
-    // Apply scaleFactor and yScalerPos to cropping
-    const scaledWidth = width * scaleFactor
-    const scaledHeight = height * scaleFactor
-    const scaledX = x - (scaledWidth - width) / 2
-    const scaledY = y * yScalerPos - (scaledHeight - height) / 2
-
-    tempCanvas.width = scaledWidth
-    tempCanvas.height = scaledHeight
-    tempCtx.drawImage(video, scaledX, scaledY, scaledWidth, scaledHeight, 0, 0, scaledWidth, scaledHeight)
-
-    return tempCanvas
+  const addFeed = () => {
+    // Default the new feed to a camera no other feed is using yet.
+    const used = new Set(feeds.map(feed => feed.deviceId))
+    const unused = devices.find(device => !used.has(device.deviceId))
+    setFeeds(current => current.length >= MAX_CAMERAS
+      ? current
+      : [...current, defaultCameraSettings(`camera-${nextFeedRef.current++}`, unused?.deviceId)])
   }
 
-  const detectFaces = useCallback(async () => {
-    if (videoRef.current && blazefaceModel && canvasRef.current && landmarkModel) {
-      const video = videoRef.current
-      const canvas = canvasRef.current
-      const ctx = canvas.getContext('2d')
-    
-      if (!ctx) return
-
-      if (video.readyState !== video.HAVE_ENOUGH_DATA) {
-        requestAnimationFrame(detectFaces)
-        return
-      }
-
-      canvas.width = video.clientWidth
-      canvas.height = video.clientHeight
-
-      const scaleX = video.clientWidth / video.videoWidth
-      const scaleY = video.clientHeight / video.videoHeight
-
-      try {
-        const predictions = await blazefaceModel.estimateFaces(video, false) as unknown as FaceDetection[]
-        setPredictions(predictions)
-
-        ctx.clearRect(0, 0, canvas.width, canvas.height)
-        ctx.fillStyle = 'rgba(255, 0, 0, 0.5)'
-        ctx.strokeStyle = '#FF0000'
-        ctx.lineWidth = 2
-
-        const newCroppedFaces: CroppedFace[] = []
+  const removeFeed = (id: string) => {
+    setFeeds(current => current.filter(feed => feed.id !== id))
+    setPredictions(current => withoutFeed(current, id))
+    setCroppedFaces(current => withoutFeed(current, id))
+    setFeedStats(current => withoutFeed(current, id))
+    setFeedStatus(current => withoutFeed(current, id))
+  }
 
-        for (const face of predictions) {
-          const [x, y] = face.topLeft
-          const [width, height] = [
-            face.bottomRight[0] - face.topLeft[0],
-            face.bottomRight[1] - face.topLeft[1]
-          ]
+  const startEnrollment = (id: string, name: string, consent: Consent) => {
+    enrollmentRef.current = { id, name, consent }
+    enrollmentSamplesRef.current = []
+    setEnrollment({ id, name, consent })
+    setEnrollmentProgress(0)
+    setEnrollmentStatus('Look at the camera. Only one face should be visible.')
+  }
 
-          // Note: scaleFactor is not applied to the bounding box, only yScalerPos to y coordinate
-          ctx.strokeRect(
-            x * scaleX, 
-            y * scaleY * yScalerPos, 
-            width * scaleX, 
-            height * scaleY * scaleFactor
-          )
+  const cancelEnrollment = () => {
+    enrollmentRef.current = null
+    enrollmentSamplesRef.current = []
+    setEnrollment(null)
+    setEnrollmentProgress(0)
+    setEnrollmentStatus('')
+  }
 
-          face.landmarks.forEach((landmark) => {
-            ctx.beginPath()
-            ctx.arc(landmark[0] * scaleX, landmark[1] * scaleY, 3, 0, 2 * Math.PI)
-            ctx.fill()
-          })
+  const captureEnrollmentSample = useCallback((
+    faceCount: number,
+    descriptor: number[] | null,
+    quality: FaceQuality | null
+  ) => {
+    const target = enrollmentRef.current
+    if (!target) return
+
+    if (faceCount !== 1) {
+      setEnrollmentStatus(faceCount === 0
+        ? 'No face visible.'
+        : 'More than one face visible. Only the person enrolling should be in view.')
+      return
+    }
+    if (!descriptor) {
+      setEnrollmentStatus('Could not read facial landmarks. Face the camera directly.')
+      return
+    }
+    if (quality && !quality.passed) {
+      setEnrollmentStatus(quality.hint ?? 'Image quality is too low.')
+      return
+    }
 
-          const croppedCanvas = cropFace(video, face)
-          const landmarks = await landmarkModel.estimateFaces(croppedCanvas)
-          newCroppedFaces.push({ image: croppedCanvas.toDataURL(), landmarks })
+    const samples = [...enrollmentSamplesRef.current, descriptor]
+    enrollmentSamplesRef.current = samples
+    setEnrollmentProgress(samples.length)
+    setEnrollmentStatus('Hold still...')
+
+    if (samples.length >= ENROLLMENT_SAMPLES) {
+      enroll({
+        id: target.id,
+        name: target.name,
+        template: buildTemplate(samples),
+        sampleCount: samples.length,
+        enrolledAt: new Date().toISOString(),
+        consent: target.consent,
+      })
+      enrollmentRef.current = null
+      enrollmentSamplesRef.current = []
+      setEnrollment(null)
+      setEnrollmentProgress(0)
+      setEnrollmentStatus(`Enrolled ${target.name}.`)
+    }
+  }, [enroll])
+
+  const handleResult = useCallback((streamId: string, result: PipelineResult) => {
+    for (const { identity, liveness, image } of result.faces) {
+      if (identity && liveness?.passed) {
+        const checkIn: CheckIn = {
+          personId: identity.personId,
+          name: identity.name,
+          timestamp: new Date(result.timestamp).toISOString(),
+          confidence: identity.similarity,
         }
-
-        setCroppedFaces(newCroppedFaces)
-        setDebugInfo(`Detected ${predictions.length} faces at ${new Date().toLocaleTimeString()}. Scaling: yScalerPos=${yScalerPos}, scaleFactor=${scaleFactor}
-Predictions:
-${JSON.stringify(predictions, null, 2)}`)
-
-      } catch (err) {
-        console.error('Error during face detection:', err)
-        setError('Face detection failed. Please try again.')
-        setDebugInfo(`Error: ${err}`)
+        recordCheckIn(checkIn, image)
       }
     }
-  }, [blazefaceModel, landmarkModel, scaleFactor, yScalerPos])
 
-  useEffect(() => {
-    loadModels()
-    return () => {
-      stopCamera()
-    }
-  }, [])
+    // Enrollment frames show the person being enrolled, not a stranger.
+    if (!enrollmentRef.current) captureUnknownFaces(streamId, result)
 
-  useEffect(() => {
-    let timeoutId: NodeJS.Timeout;
+    setPredictions(current => ({ ...current, [streamId]: result.detections }))
+    setCroppedFaces(current => ({ ...current, [streamId]: result.faces }))
+    if (streamId === PRIMARY_FEED_ID) {
+      captureEnrollmentSample(result.detections.length, result.enrollmentDescriptor, result.enrollmentQuality)
+    }
+  }, [recordCheckIn, captureUnknownFaces, captureEnrollmentSample])
 
-    const runDetection = () => {
-      detectFaces();
-      timeoutId = setTimeout(runDetection, 600); // Run detection every 600ms (0.6 second)
-    };
+  const handleStats = useCallback((streamId: string, stats: PipelineStats) => {
+    setFeedStats(current => ({ ...current, [streamId]: stats }))
+  }, [])
 
-    if (isStreaming && blazefaceModel && landmarkModel) {
-      runDetection();
-    }
+  const handleStatus = useCallback((streamId: string, status: FeedStatus) => {
+    setFeedStatus(current => ({ ...current, [streamId]: status }))
+  }, [])
 
-    return () => {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-    };
-  }, [isStreaming, blazefaceModel, landmarkModel, detectFaces]);
+  const pipelineConfig = useMemo<PipelineConfig>(() => ({
+    roster,
+    matchThreshold,
+    minQuality,
+    requireChallenge,
+    enrolling: enrollment !== null,
+  }), [roster, matchThreshold, minQuality, requireChallenge, enrollment])
+
+  const { preference: backendPreference, setPreference: setBackendPreference } = useBackendPreference()
+  const {
+    worker,
+    isLoading,
+    error: pipelineError,
+    backend,
+    fallbacks,
+  } = useInferenceWorker(pipelineConfig, backendPreference)
+  const faceCount = Object.values(predictions).reduce((total, faces) => total + faces.length, 0)
+
+  const liveFeeds = feeds.filter(feed => feedStatus[feed.id]?.live)
+  useStatusReport({
+    sessionId: activeSession?.id ?? null,
+    cameraRunning: isStreaming && liveFeeds.length === feeds.length,
+    modelsLoaded: !isLoading && worker !== null && !pipelineError,
+    error: pipelineError ?? feeds.map(feed => feedStatus[feed.id]?.error).find(Boolean) ?? null,
+    fps: liveFeeds.length === 0
+      ? 0
+      : liveFeeds.reduce((total, feed) => total + (feedStats[feed.id]?.fps ?? 0), 0) / liveFeeds.length,
+  })
 
   return (
     <div className="flex flex-col space-y-4">
       <div className="flex flex-row space-x-4">
         <div className="w-3/5">
-          <div className="relative w-full aspect-video bg-gray-200 rounded-lg overflow-hidden">
-            {error && (
-              <div className="absolute inset-0 flex items-center justify-center text-red-500 text-center p-4 z-20">
-                {error}
-              </div>
-            )}
-            {isLoading && (
-              <div className="absolute inset-0 flex items-center justify-center text-gray-500 text-center p-4 z-20">
-                Loading face detection models...
-              </div>
-            )}
-            <video
-              ref={videoRef}
-              className="absolute top-0 left-0 w-full h-full object-cover"
-              autoPlay
-              playsInline
-              muted
-            />
-            <canvas
-              ref={canvasRef}
-              className="absolute top-0 left-0 w-full h-full z-10"
-              style={{ pointerEvents: 'none' }}
-            />
+          <div className="space-y-4">
+            {feeds.map(feed => (
+              <CameraFeed
+                key={feed.id}
+                worker={worker}
+                settings={feed}
+                isStreaming={isStreaming}
+                isLoading={isLoading}
+                pipelineError={pipelineError}
+                onResult={handleResult}
+                onStarted={refreshDevices}
+                onStats={handleStats}
+                onStatus={handleStatus}
+              />
+            ))}
           </div>
           <div className="flex space-x-4 mt-4">
             <Button onClick={startCamera} disabled={isStreaming || isLoading}>
@@ -243,21 +296,162 @@ ${JSON.stringify(predictions, null, 2)}`)
             <Button onClick={stopCamera} disabled={!isStreaming || isLoading} variant="outline">
               Stop Camera
             </Button>
+            <Button asChild variant="outline" className="ml-auto">
+              <Link href={activeSession ? `/review?${new URLSearchParams({ session: activeSession.id })}` : '/review'}>
+                Unknown faces
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard">Dashboard</Link>
+            </Button>
+            {isAdmin && (
+              <Button asChild variant="outline">
+                <Link href="/monitor">Monitor</Link>
+              </Button>
+            )}
+            {principal && (
+              <Button onClick={signOut} variant="ghost" title={`Signed in as ${principal.name}`}>
+                Sign out
+              </Button>
+            )}
           </div>
         </div>
         <div className="w-2/5 space-y-4">
-          <div className="bg-gray-100 p-4 rounded-lg">
-            <h2 className="text-lg font-semibold mb-2">Debug Information:</h2>
-            <pre className="whitespace-pre-wrap text-xs max-h-40 overflow-y-auto">{debugInfo}</pre>
+          <CameraSettingsPanel
+            feeds={feeds}
+            devices={devices}
+            onChange={updateFeed}
+            onAdd={addFeed}
+            onRemove={removeFeed}
+          />
+          <RosterTable
+            roster={roster}
+            session={activeSession}
+            checkIns={checkIns}
+            overrides={overrides}
+            error={sessionError}
+            onOverride={overrideAttendance}
+            onReassign={reassignCheckIn}
+          />
+          <SessionPanel
+            sessions={sessions}
+            activeSession={activeSession}
+            error={sessionError}
+            pendingCount={pendingCount}
+            refusedCount={refusedCount}
+            isOffline={isOffline}
+            onSelect={setActiveSessionId}
+            onCreate={createSession}
+            onOpen={openSession}
+            onClose={closeSession}
+          />
+          {isAdmin && (
+            <SchedulePanel
+              schedules={schedules}
+              roster={roster}
+              users={access.users}
+              error={scheduleError}
+              onCreate={addSchedule}
+              onRemove={removeSchedule}
+            />
+          )}
+          <AuditLogPanel session={activeSession} entries={auditEntries} roster={roster} error={auditError} />
+          <ExportPanel activeSession={activeSession} />
+          <PhotoAttendancePanel activeSession={activeSession} onRecorded={addRecords} />
+          <RecognitionPanel
+            threshold={matchThreshold}
+            onThresholdChange={setMatchThreshold}
+            minQuality={minQuality}
+            onMinQualityChange={setMinQuality}
+            requireChallenge={requireChallenge}
+            onRequireChallengeChange={setRequireChallenge}
+            checkIns={checkIns}
+          />
+          {isAdmin && (
+            <EnrollmentPanel
+              roster={roster}
+              canEnroll={isStreaming}
+              activeEnrollment={enrollment}
+              capturedSamples={enrollmentProgress}
+              requiredSamples={ENROLLMENT_SAMPLES}
+              status={enrollmentStatus}
+              error={rosterError}
+              onStart={startEnrollment}
+              onCancel={cancelEnrollment}
+              onRemove={remove}
+            />
+          )}
+          {isAdmin && <RosterImportPanel onImported={reloadRoster} />}
+          {isAdmin && principal && (
+            <AccessPanel
+              users={access.users}
+              devices={access.devices}
+              currentUserId={principal.sub}
+              error={access.error}
+              onAddUser={access.addUser}
+              onRemoveUser={access.removeUser}
+              onRegisterDevice={access.registerDevice}
+              onRemoveDevice={access.removeDevice}
+            />
+          )}
+          {isAdmin && <WebhookPanel />}
+          <BackendPanel
+            preference={backendPreference}
+            onPreferenceChange={setBackendPreference}
+            backend={backend}
+            fallbacks={fallbacks}
+          />
+          <details className="bg-gray-100 p-4 rounded-lg">
+            <summary className="text-lg font-semibold cursor-pointer">Debug Information</summary>
+            <dl className="grid grid-cols-2 gap-x-4 text-xs mt-2">
+              <dt>Backend</dt>
+              <dd>{backend ?? '—'}</dd>
+              <dt>Faces</dt>
+              <dd>{faceCount}</dd>
+              {feeds.map((feed, index) => {
+                const stats = feedStats[feed.id]
+                return stats && (
+                  <Fragment key={feed.id}>
+                    <dt className="col-span-2 font-semibold mt-2">Camera {index + 1}</dt>
+                    <dt>Frames per second</dt>
+                    <dd>{stats.fps.toFixed(1)}</dd>
+                    <dt>Latency</dt>
+                    <dd>{stats.latencyMs.toFixed(0)} ms</dd>
+                    <dt>Inference</dt>
+                    <dd>{stats.inferenceMs.toFixed(0)} ms</dd>
+                    <dt>Next frame after</dt>
+                    <dd>{stats.intervalMs.toFixed(0)} ms{stats.hidden && ' (tab hidden)'}</dd>
+                  </Fragment>
+                )
+              })}
+            </dl>
             <pre className="whitespace-pre-wrap text-xs max-h-40 overflow-y-auto">{JSON.stringify(predictions)}</pre>
-          </div>
+          </details>
         </div>
       </div>
       <div className="grid grid-cols-3 gap-4">
-        {croppedFaces.map((face, index) => (
-          <div key={index} className="bg-gray-100 p-4 rounded-lg">
-            <h3 className="text-md font-semibold mb-2">Face {index + 1}</h3>
-            <img src={face.image} alt={`Cropped face ${index + 1}`} className="w-full mb-2" />
+        {feeds.flatMap((feed, index) => (croppedFaces[feed.id] ?? []).map(face => (
+          <div key={`${feed.id}-${face.trackId}`} className="bg-gray-100 p-4 rounded-lg">
+            <h3 className="text-md font-semibold mb-2">
+              {feeds.length > 1 && `Camera ${index + 1}, `}Face #{face.trackId}: {face.identity ? `${face.identity.name} (${(face.identity.similarity * 100).toFixed(0)}%)` : 'Unknown'}
+            </h3>
+            {face.quality && (
+              <p className={`text-xs mb-2 ${face.quality.passed ? '' : 'text-red-500'}`}>
+                Quality: {(face.quality.score * 100).toFixed(0)}%
+                {' '}(size {(face.quality.size * 100).toFixed(0)}, sharpness {(face.quality.sharpness * 100).toFixed(0)},
+                {' '}exposure {(face.quality.exposure * 100).toFixed(0)}, contrast {(face.quality.contrast * 100).toFixed(0)},
+                {' '}pose {(face.quality.pose * 100).toFixed(0)})
+                {face.quality.hint && ` ${face.quality.hint}`}
+              </p>
+            )}
+            {face.liveness && (
+              <p className="text-xs mb-2">
+                Liveness: {face.liveness.passed ? 'passed' : face.liveness.prompt ?? 'checking'}
+                {' '}(blink {face.liveness.blinkSeen ? '✓' : '✗'}, movement {face.liveness.movementSeen ? '✓' : '✗'}
+                {face.liveness.challenge && `, ${face.liveness.challenge} ${face.liveness.challengeMet ? '✓' : '✗'}`})
+              </p>
+            )}
+            <img src={face.image} alt={`Cropped face #${face.trackId}`} className="w-full mb-2" />
             <div className="text-xs">
               <h4 className="font-semibold">Landmarks:</h4>
               <pre className="whitespace-pre-wrap max-h-40 overflow-y-auto">
@@ -265,7 +459,7 @@ ${JSON.stringify(predictions, null, 2)}`)
               </pre>
             </div>
           </div>
-        ))}
+        )))}
       </div>
     </div>
   )
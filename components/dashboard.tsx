@@ -0,0 +1,176 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import AttendanceChart from '@/components/attendance-chart'
+import StatusBadge from '@/components/status-badge'
+import { useAnalytics } from '@/hooks/use-analytics'
+import { CHRONIC_ABSENCE_RATE, PersonSummary } from '@/lib/analytics'
+import { localDate } from '@/lib/schedules'
+import { cn } from '@/lib/utils'
+
+const DEFAULT_RANGE_DAYS = 30
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`
+
+const daysAgo = (days: number) => {
+  const date = new Date()
+  date.setDate(date.getDate() - days)
+  return localDate(date)
+}
+
+function PersonHistory({ person, onClose }: { person: PersonSummary; onClose: () => void }) {
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{person.name}</h2>
+        <Button onClick={onClose} variant="outline" size="sm">Close</Button>
+      </div>
+      <p className="text-sm text-gray-600">
+        {person.sessions - person.absent - person.excused}/{person.sessions - person.excused} attended ({percent(person.rate)}),
+        {' '}{person.late + person.tooLate} late, {person.excused} excused, longest late streak {person.longestLateStreak}
+      </p>
+      <div className="max-h-96 overflow-y-auto bg-white rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Class</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Check-in</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...person.history].reverse().map(entry => (
+              <TableRow key={entry.sessionId}>
+                <TableCell>{entry.date} {entry.startTime}</TableCell>
+                <TableCell>{entry.className}</TableCell>
+                <TableCell><StatusBadge status={entry.status} /></TableCell>
+                <TableCell>{entry.checkInTime ? new Date(entry.checkInTime).toLocaleTimeString() : '—'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Attendance trends over a date range: rates per person, class and weekday,
+ * lateness streaks and chronic absentees, with each person's history a click
+ * away.
+ */
+export default function DashboardComponent() {
+  const [from, setFrom] = useState(() => daysAgo(DEFAULT_RANGE_DAYS))
+  const [to, setTo] = useState(() => daysAgo(0))
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const { analytics, isLoading, error } = useAnalytics(from, to)
+
+  const selected = analytics?.people.find(person => person.personId === selectedId) ?? null
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h1 className="text-2xl font-semibold mr-auto">Attendance dashboard</h1>
+        <Input type="date" value={from} onChange={e => setFrom(e.target.value)} className="w-40" />
+        <span className="text-sm">to</span>
+        <Input type="date" value={to} onChange={e => setTo(e.target.value)} className="w-40" />
+        <Button asChild variant="outline">
+          <Link href="/">Back to camera</Link>
+        </Button>
+      </div>
+      {from > to && <p className="text-xs text-red-500">The start date must not be after the end date.</p>}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {isLoading && !analytics && <p className="text-sm text-gray-600">Loading attendance…</p>}
+
+      {analytics && (
+        <>
+          <p className="text-sm text-gray-600">
+            {analytics.sessionCount} finished sessions, {percent(analytics.overall.rate)} attendance,
+            {' '}{analytics.overall.late + analytics.overall.tooLate} late arrivals, {analytics.overall.absent} absences
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <AttendanceChart title="By class" groups={analytics.classes} />
+            <AttendanceChart title="By weekday" groups={analytics.weekdays} />
+          </div>
+          <div className="flex flex-row space-x-4">
+            <div className="w-3/5 bg-gray-100 p-4 rounded-lg space-y-3">
+              <h2 className="text-lg font-semibold">People</h2>
+              <div className="max-h-96 overflow-y-auto bg-white rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Attendance</TableHead>
+                      <TableHead>Late</TableHead>
+                      <TableHead>Absent</TableHead>
+                      <TableHead>Late streak</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analytics.people.length ? analytics.people.map(person => (
+                      <TableRow
+                        key={person.personId}
+                        onClick={() => setSelectedId(person.personId)}
+                        data-state={person.personId === selectedId ? 'selected' : undefined}
+                        className="cursor-pointer"
+                      >
+                        <TableCell>{person.name}</TableCell>
+                        <TableCell>{percent(person.rate)} of {person.sessions}</TableCell>
+                        <TableCell>{person.late + person.tooLate}</TableCell>
+                        <TableCell>{person.absent}</TableCell>
+                        <TableCell className={cn(person.lateStreak >= 3 && 'text-orange-600 font-medium')}>
+                          {person.lateStreak} (longest {person.longestLateStreak})
+                        </TableCell>
+                      </TableRow>
+                    )) : (
+                      <TableRow>
+                        <TableCell colSpan={5} className="h-16 text-center text-gray-500">
+                          No attendance recorded in this range.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+            <div className="w-2/5 space-y-4">
+              {selected && <PersonHistory person={selected} onClose={() => setSelectedId(null)} />}
+              <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+                <h2 className="text-lg font-semibold">Chronic absentees</h2>
+                <p className="text-xs text-gray-600">
+                  Missed at least {percent(CHRONIC_ABSENCE_RATE)} of their sessions.
+                </p>
+                {analytics.chronicAbsentees.length === 0 ? (
+                  <p className="text-sm">Nobody in this range.</p>
+                ) : (
+                  <ul className="text-sm space-y-1">
+                    {analytics.chronicAbsentees.map(person => (
+                      <li key={person.personId} className="flex items-center justify-between">
+                        <button className="underline" onClick={() => setSelectedId(person.personId)}>
+                          {person.name}
+                        </button>
+                        <span>{person.absent}/{person.sessions - person.excused} missed ({percent(1 - person.rate)})</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
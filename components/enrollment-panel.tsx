@@ -0,0 +1,130 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Consent, Person } from '@/lib/roster'
+
+interface EnrollmentPanelProps {
+  roster: Person[]
+  canEnroll: boolean
+  activeEnrollment: { id: string; name: string } | null
+  capturedSamples: number
+  requiredSamples: number
+  status: string
+  error: string | null
+  onStart: (id: string, name: string, consent: Consent) => void
+  onCancel: () => void
+  onRemove: (id: string) => void
+}
+
+export default function EnrollmentPanel({
+  roster,
+  canEnroll,
+  activeEnrollment,
+  capturedSamples,
+  requiredSamples,
+  status,
+  error,
+  onStart,
+  onCancel,
+  onRemove,
+}: EnrollmentPanelProps) {
+  const [personId, setPersonId] = useState('')
+  const [name, setName] = useState('')
+  const [consentGivenBy, setConsentGivenBy] = useState('')
+  const [consentNote, setConsentNote] = useState('')
+  const [consentConfirmed, setConsentConfirmed] = useState(false)
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    onStart(personId.trim(), name.trim(), {
+      givenBy: consentGivenBy.trim(),
+      givenAt: new Date().toISOString(),
+      note: consentNote.trim(),
+    })
+    setPersonId('')
+    setName('')
+    setConsentGivenBy('')
+    setConsentNote('')
+    setConsentConfirmed(false)
+  }
+
+  const erase = (person: Person) => {
+    if (window.confirm(`Erase ${person.name}'s face data and remove them from the roster? Their attendance history is kept.`)) {
+      onRemove(person.id)
+    }
+  }
+
+  const ready = canEnroll && personId.trim() && name.trim() && consentGivenBy.trim() && consentConfirmed
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">Enrollment</h2>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {activeEnrollment ? (
+        <div className="space-y-2">
+          <p className="text-sm">
+            Capturing {activeEnrollment.name} ({activeEnrollment.id}): {capturedSamples}/{requiredSamples} samples
+          </p>
+          {status && <p className="text-xs text-gray-600">{status}</p>}
+          <Button onClick={onCancel} variant="outline" size="sm">
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <Input
+            placeholder="Person ID"
+            value={personId}
+            onChange={e => setPersonId(e.target.value)}
+          />
+          <Input
+            placeholder="Name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+          />
+          <Input
+            placeholder="Consent given by (the person or a guardian)"
+            value={consentGivenBy}
+            onChange={e => setConsentGivenBy(e.target.value)}
+          />
+          <Input
+            placeholder="Consent note, e.g. where the signed form is kept"
+            value={consentNote}
+            onChange={e => setConsentNote(e.target.value)}
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={consentConfirmed}
+              onChange={e => setConsentConfirmed(e.target.checked)}
+            />
+            Consent to store face data has been given
+          </label>
+          <Button type="submit" size="sm" disabled={!ready}>
+            Enroll
+          </Button>
+          {!canEnroll && <p className="text-xs text-gray-600">Start the camera to enroll someone.</p>}
+          {status && <p className="text-xs text-gray-600">{status}</p>}
+        </form>
+      )}
+      <div>
+        <h3 className="text-md font-semibold mb-1">Roster ({roster.length})</h3>
+        <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+          {roster.map(person => (
+            <li key={person.id} className="flex items-center justify-between">
+              <span>
+                {person.name} <span className="text-gray-500">({person.id})</span>
+                {!person.consent && <span className="ml-1 text-xs text-orange-600">no consent on record</span>}
+              </span>
+              <Button onClick={() => erase(person)} variant="ghost" size="sm">
+                Erase
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
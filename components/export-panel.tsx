@@ -0,0 +1,73 @@
+'use client'
+
+import { useState } from 'react'
+import { Download } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { AttendanceSession } from '@/lib/attendance'
+
+interface ExportPanelProps {
+  activeSession: AttendanceSession | null
+}
+
+type Scope = 'session' | 'range'
+
+export default function ExportPanel({ activeSession }: ExportPanelProps) {
+  const [scope, setScope] = useState<Scope>('session')
+  const [format, setFormat] = useState('csv')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  const params = new URLSearchParams({ format })
+  if (scope === 'session' && activeSession) {
+    params.set('sessionId', activeSession.id)
+  } else if (scope === 'range') {
+    params.set('from', from)
+    params.set('to', to)
+  }
+  const ready = scope === 'session' ? Boolean(activeSession) : Boolean(from && to && from <= to)
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">Export</h2>
+      <div className="flex gap-2">
+        <select
+          className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+          value={scope}
+          onChange={e => setScope(e.target.value as Scope)}
+        >
+          <option value="session">Current session</option>
+          <option value="range">Date range</option>
+        </select>
+        <select
+          className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+          value={format}
+          onChange={e => setFormat(e.target.value)}
+        >
+          <option value="csv">CSV</option>
+          <option value="xlsx">Excel (XLSX)</option>
+          <option value="json">JSON</option>
+        </select>
+      </div>
+      {scope === 'range' && (
+        <div className="flex gap-2">
+          <Input type="date" value={from} onChange={e => setFrom(e.target.value)} />
+          <Input type="date" value={to} onChange={e => setTo(e.target.value)} />
+        </div>
+      )}
+      {ready ? (
+        <Button asChild size="sm">
+          <a href={`/api/exports?${params}`} download>
+            <Download />
+            Download
+          </a>
+        </Button>
+      ) : (
+        <Button size="sm" disabled>
+          <Download />
+          Download
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,349 @@
+'use client'
+
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import CameraFeed, { FeedStatus } from '@/components/camera-feed'
+import SyncStatus from '@/components/sync-status'
+import { useRoster } from '@/hooks/use-roster'
+import { useSessions } from '@/hooks/use-sessions'
+import { useCurrentUser } from '@/hooks/use-current-user'
+import { PipelineStats, useInferenceWorker } from '@/hooks/use-face-pipeline'
+import { useBackendPreference } from '@/hooks/use-backend-preference'
+import { useUnknownFaceCapture } from '@/hooks/use-unknown-face-capture'
+import { useStatusReport } from '@/hooks/use-status-report'
+import { DEFAULT_MATCH_THRESHOLD } from '@/lib/recognition'
+import { DEFAULT_MIN_QUALITY } from '@/lib/face-quality'
+import { checkInStatus } from '@/lib/attendance'
+import { DEVICE_TOKEN_STORAGE_KEY } from '@/lib/auth'
+import { defaultCameraSettings } from '@/lib/camera-devices'
+import { PipelineConfig, PipelineResult } from '@/lib/pipeline-protocol'
+import * as api from '@/lib/api-client'
+
+const KIOSK_FEED = defaultCameraSettings('kiosk')
+
+// Nobody is announced twice within this long.
+const ANNOUNCE_COOLDOWN_MS = 60_000
+// A face has to stay unrecognized this long before staff are called, so
+// people are not turned away while the identity vote is still running.
+const UNKNOWN_AFTER_MS = 4000
+const MESSAGE_MS = 4000
+const CAMERA_RESTART_MS = 5000
+// Holding the lock button this long asks for a staff sign-in, which the
+// server checks before the controls unlock.
+const UNLOCK_HOLD_MS = 3000
+
+interface KioskMessage {
+  kind: 'welcome' | 'unknown' | 'closed'
+  text: string
+}
+
+const formatTime = (timestamp: string | number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+
+// A short beep: two rising tones for a check-in, one low tone for staff.
+const playTone = (kind: KioskMessage['kind']) => {
+  try {
+    const context = new AudioContext()
+    const frequencies = kind === 'welcome' ? [660, 880] : [220]
+    frequencies.forEach((frequency, index) => {
+      const oscillator = context.createOscillator()
+      const gain = context.createGain()
+      oscillator.frequency.value = frequency
+      gain.gain.value = 0.1
+      oscillator.connect(gain).connect(context.destination)
+      oscillator.start(context.currentTime + index * 0.15)
+      oscillator.stop(context.currentTime + index * 0.15 + 0.12)
+    })
+    setTimeout(() => context.close(), 1000)
+  } catch (err) {
+    console.error('Error playing feedback sound:', err)
+  }
+}
+
+/**
+ * Unattended check-in at a room's entrance. Runs with a device token from
+ * the access panel, or in a staff member's own sign-in.
+ */
+export default function KioskComponent() {
+  const { principal, loaded, reload } = useCurrentUser()
+  const [token, setToken] = useState('')
+  const [rejected, setRejected] = useState(false)
+
+  const submitToken = async (event: React.FormEvent) => {
+    event.preventDefault()
+    localStorage.setItem(DEVICE_TOKEN_STORAGE_KEY, token.trim())
+    setToken('')
+    setRejected(false)
+    await reload()
+    setRejected(true)
+  }
+
+  if (principal) return <KioskView />
+  return (
+    <div className="flex h-screen items-center justify-center bg-black text-white">
+      {loaded && (
+        <form onSubmit={submitToken} className="w-96 space-y-3">
+          <h1 className="text-lg font-semibold">Set up this kiosk</h1>
+          <p className="text-sm">Enter the device token from Accounts and devices on the main page.</p>
+          {rejected && <p className="text-sm text-red-400">That token was not accepted.</p>}
+          <Input value={token} onChange={e => setToken(e.target.value)} placeholder="Device token" className="text-black" />
+          <Button type="submit" variant="secondary" disabled={!token.trim()}>Save</Button>
+        </form>
+      )}
+    </div>
+  )
+}
+
+/**
+ * One large camera view, a greeting for each recognized person and a
+ * pointer to staff for unknown faces. The controls stay hidden until staff
+ * unlock them.
+ */
+function KioskView() {
+  const { roster } = useRoster()
+  const {
+    sessions,
+    activeSession,
+    setActiveSessionId,
+    checkIns,
+    recordCheckIn,
+    pendingCount,
+    refusedCount,
+    isOffline,
+  } = useSessions({ loadOverrides: false })
+  const { preference } = useBackendPreference()
+  const captureUnknownFaces = useUnknownFaceCapture(activeSession)
+  const [isStreaming, setIsStreaming] = useState(true)
+  const [isLocked, setIsLocked] = useState(true)
+  const [showUnlock, setShowUnlock] = useState(false)
+  const [staffUsername, setStaffUsername] = useState('')
+  const [staffPassword, setStaffPassword] = useState('')
+  const [unlockError, setUnlockError] = useState<string | null>(null)
+  const [soundEnabled, setSoundEnabled] = useState(false)
+  const [message, setMessage] = useState<KioskMessage | null>(null)
+  const announcedRef = useRef<Map<string, number>>(new Map())
+  // When each still unrecognized track was first seen, and which tracks
+  // have already been sent to staff.
+  const unknownSinceRef = useRef<Map<number, number>>(new Map())
+  const unknownShownRef = useRef<Set<number>>(new Set())
+  const messageTimeoutRef = useRef<ReturnType<typeof setTimeout>>()
+  const holdTimeoutRef = useRef<ReturnType<typeof setTimeout>>()
+
+  // Follow whichever class is open now, since schedules open and close them
+  // through the day.
+  useEffect(() => {
+    if (activeSession?.status === 'open') return
+    const open = sessions.find(s => s.status === 'open')
+    if (open) setActiveSessionId(open.id)
+  }, [sessions, activeSession, setActiveSessionId])
+
+  const show = useCallback((next: KioskMessage) => {
+    setMessage(next)
+    if (soundEnabled) playTone(next.kind)
+    if (messageTimeoutRef.current) clearTimeout(messageTimeoutRef.current)
+    messageTimeoutRef.current = setTimeout(() => setMessage(null), MESSAGE_MS)
+  }, [soundEnabled])
+
+  const handleResult = useCallback((streamId: string, result: PipelineResult) => {
+    captureUnknownFaces(streamId, result)
+    const now = result.timestamp
+    const visible = new Set(result.faces.map(face => face.trackId))
+    for (const trackId of Array.from(unknownSinceRef.current.keys())) {
+      if (!visible.has(trackId)) {
+        unknownSinceRef.current.delete(trackId)
+        unknownShownRef.current.delete(trackId)
+      }
+    }
+
+    for (const { trackId, identity, liveness, image } of result.faces) {
+      if (!identity) {
+        const since = unknownSinceRef.current.get(trackId) ?? now
+        unknownSinceRef.current.set(trackId, since)
+        if (now - since >= UNKNOWN_AFTER_MS && !unknownShownRef.current.has(trackId)) {
+          unknownShownRef.current.add(trackId)
+          show({ kind: 'unknown', text: "We don't recognize you. Please see staff." })
+        }
+        continue
+      }
+      unknownSinceRef.current.delete(trackId)
+      if (!liveness?.passed) continue
+
+      const lastAnnounced = announcedRef.current.get(identity.personId)
+      if (lastAnnounced !== undefined && now - lastAnnounced < ANNOUNCE_COOLDOWN_MS) continue
+      announcedRef.current.set(identity.personId, now)
+
+      if (!activeSession || activeSession.status !== 'open') {
+        show({ kind: 'closed', text: `Hello, ${identity.name}. No class is open for check-in. Please see staff.` })
+        continue
+      }
+      const existing = checkIns.find(checkIn => checkIn.personId === identity.personId)
+      if (existing) {
+        show({ kind: 'welcome', text: `Welcome back, ${identity.name} — already checked in at ${formatTime(existing.timestamp)}` })
+        continue
+      }
+      const timestamp = new Date(now).toISOString()
+      recordCheckIn({
+        personId: identity.personId,
+        name: identity.name,
+        timestamp,
+        confidence: identity.similarity,
+      }, image)
+      const status = checkInStatus(activeSession, timestamp)
+      show({
+        kind: 'welcome',
+        text: `Welcome, ${identity.name} — checked in ${status === 'on-time' ? '' : `${status.replace('-', ' ')} `}at ${formatTime(now)}`,
+      })
+    }
+  }, [activeSession, checkIns, recordCheckIn, captureUnknownFaces, show])
+
+  const [fps, setFps] = useState(0)
+  const [feedStatus, setFeedStatus] = useState<FeedStatus>({ live: false, error: null })
+  const handleStats = useCallback((_: string, stats: PipelineStats) => setFps(stats.fps), [])
+  const handleStatus = useCallback((_: string, status: FeedStatus) => setFeedStatus(status), [])
+  const handleStarted = useCallback(() => {}, [])
+
+  const pipelineConfig = useMemo<PipelineConfig>(() => ({
+    roster,
+    matchThreshold: DEFAULT_MATCH_THRESHOLD,
+    minQuality: DEFAULT_MIN_QUALITY,
+    requireChallenge: false,
+    enrolling: false,
+  }), [roster])
+
+  const { worker, isLoading, error: pipelineError } = useInferenceWorker(pipelineConfig, preference)
+
+  useStatusReport({
+    sessionId: activeSession?.id ?? null,
+    cameraRunning: feedStatus.live,
+    modelsLoaded: !isLoading && worker !== null && !pipelineError,
+    error: pipelineError ?? feedStatus.error,
+    fps: feedStatus.live ? fps : 0,
+  })
+
+  const startHold = () => {
+    holdTimeoutRef.current = setTimeout(() => setShowUnlock(true), UNLOCK_HOLD_MS)
+  }
+
+  const cancelHold = () => {
+    if (holdTimeoutRef.current) clearTimeout(holdTimeoutRef.current)
+  }
+
+  const closeUnlock = () => {
+    setStaffUsername('')
+    setStaffPassword('')
+    setShowUnlock(false)
+  }
+
+  const submitUnlock = async (event: React.FormEvent) => {
+    event.preventDefault()
+    try {
+      await api.verifyStaff(staffUsername.trim(), staffPassword)
+      setUnlockError(null)
+      setIsLocked(false)
+    } catch (err) {
+      console.error('Error unlocking the kiosk:', err)
+      setUnlockError(err instanceof api.ApiError ? err.message : 'The server could not be reached to check the sign-in')
+    }
+    closeUnlock()
+  }
+
+  const lock = () => {
+    setIsLocked(true)
+    setIsStreaming(true)
+  }
+
+  const messageClassName = message?.kind === 'welcome'
+    ? 'bg-green-600'
+    : 'bg-yellow-600'
+
+  return (
+    <div className="flex flex-col h-screen bg-black text-white">
+      <div className="relative flex-1 p-4">
+        <CameraFeed
+          worker={worker}
+          settings={KIOSK_FEED}
+          isStreaming={isStreaming}
+          isLoading={isLoading}
+          pipelineError={pipelineError}
+          onResult={handleResult}
+          onStarted={handleStarted}
+          onStats={handleStats}
+          onStatus={handleStatus}
+          autoRestartMs={CAMERA_RESTART_MS}
+          className="w-full h-full"
+        />
+        {message && (
+          <div className={`absolute bottom-8 left-8 right-8 z-30 rounded-lg p-6 text-center text-3xl font-semibold ${messageClassName}`}>
+            {message.text}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-4 px-4 pb-4">
+        <div>
+          <p className="text-lg">
+            {activeSession?.status === 'open'
+              ? `${activeSession.className} — checking in`
+              : 'No class is open for check-in'}
+          </p>
+          <SyncStatus pendingCount={pendingCount} refusedCount={refusedCount} isOffline={isOffline} className="text-sm" />
+        </div>
+        {isLocked ? (
+          showUnlock ? (
+            <form onSubmit={submitUnlock} className="flex gap-2">
+              <Input
+                autoFocus
+                autoComplete="off"
+                placeholder="Staff username"
+                value={staffUsername}
+                onChange={e => setStaffUsername(e.target.value)}
+                className="w-40 text-black"
+              />
+              <Input
+                type="password"
+                autoComplete="off"
+                placeholder="Password"
+                value={staffPassword}
+                onChange={e => setStaffPassword(e.target.value)}
+                className="w-40 text-black"
+              />
+              <Button type="submit" variant="secondary" disabled={!staffUsername.trim() || !staffPassword}>Unlock</Button>
+              <Button type="button" variant="ghost" onClick={closeUnlock}>Cancel</Button>
+            </form>
+          ) : (
+            <div className="flex items-center gap-2">
+              {unlockError && <p className="text-sm text-red-400">{unlockError}</p>}
+              <Button
+                variant="ghost"
+                onPointerDown={startHold}
+                onPointerUp={cancelHold}
+                onPointerLeave={cancelHold}
+                aria-label="Staff: hold to unlock"
+                title="Staff: hold to unlock"
+              >
+                🔒
+              </Button>
+            </div>
+          )
+        ) : (
+          <div className="flex gap-2">
+            <Button onClick={() => setIsStreaming(true)} disabled={isStreaming || isLoading} variant="secondary">
+              Start Camera
+            </Button>
+            <Button onClick={() => setIsStreaming(false)} disabled={!isStreaming} variant="secondary">
+              Stop Camera
+            </Button>
+            <Button onClick={() => setSoundEnabled(current => !current)} variant="secondary">
+              Sound {soundEnabled ? 'on' : 'off'}
+            </Button>
+            {/* Browsers may refuse full screen, e.g. inside a frame; the kiosk works without it. */}
+            <Button onClick={() => document.documentElement.requestFullscreen?.().catch(() => {})} variant="secondary">
+              Full screen
+            </Button>
+            <Button onClick={lock}>Lock</Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
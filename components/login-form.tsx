@@ -0,0 +1,77 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import * as api from '@/lib/api-client'
+
+// Only paths on this site, so the login page cannot be used to redirect
+// people elsewhere.
+const nextPath = () => {
+  const next = new URLSearchParams(window.location.search).get('next')
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/'
+}
+
+/**
+ * Signs staff in. Before any account exists it creates the first admin
+ * instead.
+ */
+export default function LoginForm() {
+  const [setupNeeded, setSetupNeeded] = useState<boolean | null>(null)
+  const [username, setUsername] = useState('')
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    api.fetchSetupNeeded()
+      .then(setSetupNeeded)
+      .catch(err => {
+        console.error('Error checking account setup:', err)
+        setError(err instanceof Error ? err.message : String(err))
+      })
+  }, [])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSubmitting(true)
+    try {
+      if (setupNeeded) {
+        await api.createFirstAdmin({ username: username.trim(), name: name.trim(), password })
+      } else {
+        await api.signIn(username.trim(), password)
+      }
+      window.location.assign(nextPath())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      setIsSubmitting(false)
+    }
+  }
+
+  const ready = username.trim() && password && (!setupNeeded || name.trim())
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto bg-gray-100 p-4 rounded-lg space-y-3">
+      <h1 className="text-lg font-semibold">{setupNeeded ? 'Create the first admin account' : 'Sign in'}</h1>
+      {setupNeeded && (
+        <p className="text-xs text-gray-600">
+          No accounts exist yet. This account can add teachers and register kiosk devices.
+        </p>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <Input placeholder="Username" autoComplete="username" value={username} onChange={e => setUsername(e.target.value)} />
+      {setupNeeded && <Input placeholder="Full name" value={name} onChange={e => setName(e.target.value)} />}
+      <Input
+        type="password"
+        placeholder={setupNeeded ? 'Password (10+ characters)' : 'Password'}
+        autoComplete={setupNeeded ? 'new-password' : 'current-password'}
+        value={password}
+        onChange={e => setPassword(e.target.value)}
+      />
+      <Button type="submit" disabled={!ready || isSubmitting || setupNeeded === null}>
+        {setupNeeded ? 'Create account' : 'Sign in'}
+      </Button>
+    </form>
+  )
+}
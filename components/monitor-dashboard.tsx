@@ -0,0 +1,133 @@
+'use client'
+
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import StatusBadge from '@/components/status-badge'
+import { useMonitor } from '@/hooks/use-monitor'
+import { DeviceStatus, RoomStatus } from '@/lib/monitoring'
+import { cn } from '@/lib/utils'
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+
+const deviceProblem = (device: DeviceStatus) => {
+  if (device.silent) return `Silent since ${formatTime(device.lastSeen)}`
+  if (device.error) return device.error
+  if (!device.modelsLoaded) return 'Models not loaded'
+  if (!device.cameraRunning) return 'Camera off'
+  return null
+}
+
+function DeviceRow({ device }: { device: DeviceStatus }) {
+  const problem = deviceProblem(device)
+  return (
+    <li className="flex items-center justify-between gap-2 text-sm">
+      <span className="flex items-center gap-2">
+        <span className={cn('h-2 w-2 rounded-full', problem ? 'bg-red-500' : 'bg-green-500')} />
+        {device.name}
+        <span className="text-xs text-gray-500">{device.role}</span>
+      </span>
+      <span className={cn('text-xs', problem ? 'text-red-600' : 'text-gray-600')}>
+        {problem ?? `${device.fps.toFixed(1)} fps`}
+      </span>
+    </li>
+  )
+}
+
+function RoomCard({ room }: { room: RoomStatus }) {
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <div className="flex items-baseline justify-between gap-2">
+        <h2 className="text-md font-semibold">{room.className}</h2>
+        <span className="text-xs text-gray-600">
+          {room.startTime}–{room.endTime}{room.teacher && `, ${room.teacher}`}
+        </span>
+      </div>
+      <p className="text-3xl font-semibold">
+        {room.present}<span className="text-lg text-gray-500"> / {room.expected} present</span>
+      </p>
+      {room.late > 0 && <p className="text-xs text-gray-600">{room.late} late</p>}
+      <div>
+        <h3 className="text-sm font-medium">Recent arrivals</h3>
+        {room.recentArrivals.length === 0 ? (
+          <p className="text-xs text-gray-500">Nobody yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {room.recentArrivals.map(arrival => (
+              <li key={arrival.personId} className="flex items-center justify-between gap-2 text-sm">
+                <span>{arrival.name}</span>
+                <span className="flex items-center gap-2 text-xs text-gray-600">
+                  {formatTime(arrival.timestamp)}
+                  <StatusBadge status={arrival.status} />
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div>
+        <h3 className="text-sm font-medium">Devices</h3>
+        {room.devices.length === 0 ? (
+          <p className="text-xs text-red-600">No device is checking people in.</p>
+        ) : (
+          <ul className="space-y-1">
+            {room.devices.map(device => <DeviceRow key={`${device.name}:${device.clientId}`} device={device} />)}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Every open session at a glance, updated live: how many have arrived, who
+ * came in last, and whether the cameras checking them in are still running.
+ */
+export default function MonitorDashboard() {
+  const { snapshot, connected, error } = useMonitor()
+  const silent = snapshot
+    ? [...snapshot.rooms.flatMap(room => room.devices), ...snapshot.idleDevices].filter(device => device.silent)
+    : []
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h1 className="text-2xl font-semibold mr-auto">Live monitor</h1>
+        <span className={cn('text-xs', connected ? 'text-green-700' : 'text-gray-500')}>
+          {connected ? 'Live' : 'Reconnecting…'}
+        </span>
+        <Button asChild variant="outline">
+          <Link href="/">Back to camera</Link>
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {silent.length > 0 && (
+        <div className="bg-red-50 p-4 rounded-lg space-y-1">
+          <h2 className="text-md font-semibold text-red-700">
+            {silent.length} {silent.length === 1 ? 'device has' : 'devices have'} gone silent
+          </h2>
+          <ul className="space-y-1">
+            {silent.map(device => <DeviceRow key={`${device.name}:${device.clientId}`} device={device} />)}
+          </ul>
+        </div>
+      )}
+      {!snapshot ? (
+        <p className="text-sm text-gray-600">Connecting…</p>
+      ) : snapshot.rooms.length === 0 ? (
+        <p className="text-sm text-gray-600">No session is open right now.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {snapshot.rooms.map(room => <RoomCard key={room.sessionId} room={room} />)}
+        </div>
+      )}
+      {snapshot && snapshot.idleDevices.length > 0 && (
+        <div className="bg-gray-100 p-4 rounded-lg space-y-1">
+          <h2 className="text-md font-semibold">Devices without an open session</h2>
+          <ul className="space-y-1">
+            {snapshot.idleDevices.map(device => <DeviceRow key={`${device.name}:${device.clientId}`} device={device} />)}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { AttendanceSession, CheckInRecord } from '@/lib/attendance'
+import { PhotoRecognition, recognizePhoto } from '@/lib/api-client'
+
+interface PhotoAttendancePanelProps {
+  activeSession: AttendanceSession | null
+  onRecorded: (checkIns: CheckInRecord[]) => void
+}
+
+export default function PhotoAttendancePanel({ activeSession, onRecorded }: PhotoAttendancePanelProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [record, setRecord] = useState(true)
+  const [isWorking, setIsWorking] = useState(false)
+  const [result, setResult] = useState<PhotoRecognition | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const canRecord = activeSession?.status === 'open'
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!file) return
+    setIsWorking(true)
+    setError(null)
+    try {
+      const recognition = await recognizePhoto(file, {
+        sessionId: activeSession?.id,
+        record: record && canRecord,
+      })
+      setResult(recognition)
+      if (recognition.checkIns.length > 0) onRecorded(recognition.checkIns)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">Photo attendance</h2>
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <Input type="file" accept="image/*,video/*" onChange={e => setFile(e.target.files?.[0] ?? null)} />
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={record && canRecord}
+            disabled={!canRecord}
+            onChange={e => setRecord(e.target.checked)}
+          />
+          Check recognized people in to the current session
+        </label>
+        <Button type="submit" size="sm" disabled={!file || isWorking}>
+          {isWorking ? 'Recognizing...' : 'Recognize'}
+        </Button>
+      </form>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {result && (
+        <div className="text-sm">
+          <p className="text-gray-600">
+            {result.faces.length} faces in {result.frames} {result.frames === 1 ? 'frame' : 'frames'}, {result.recognized.length} recognized
+            {result.checkIns.length > 0 && `, ${result.checkIns.length} checked in`}
+            {result.unknownFaces > 0 && `, ${result.unknownFaces} unknown kept for review`}
+          </p>
+          <ul className="max-h-40 overflow-y-auto">
+            {result.recognized.map(person => (
+              <li key={person.personId} className="flex justify-between">
+                <span>{person.name}</span>
+                <span className="text-gray-500">{(person.confidence * 100).toFixed(0)}%</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
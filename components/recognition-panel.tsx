@@ -0,0 +1,85 @@
+'use client'
+
+import { Input } from "@/components/ui/input"
+import { CheckIn } from '@/lib/attendance'
+
+interface RecognitionPanelProps {
+  threshold: number
+  onThresholdChange: (threshold: number) => void
+  minQuality: number
+  onMinQualityChange: (minQuality: number) => void
+  requireChallenge: boolean
+  onRequireChallengeChange: (requireChallenge: boolean) => void
+  checkIns: CheckIn[]
+}
+
+export default function RecognitionPanel({
+  threshold,
+  onThresholdChange,
+  minQuality,
+  onMinQualityChange,
+  requireChallenge,
+  onRequireChallengeChange,
+  checkIns,
+}: RecognitionPanelProps) {
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">Recognition</h2>
+      <label className="flex items-center gap-2 text-sm">
+        Match threshold
+        <Input
+          type="number"
+          min={0}
+          max={1}
+          step={0.01}
+          value={threshold}
+          onChange={e => {
+            const value = parseFloat(e.target.value)
+            if (!Number.isNaN(value)) onThresholdChange(Math.min(1, Math.max(0, value)))
+          }}
+          className="w-24"
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        Minimum face quality
+        <Input
+          type="number"
+          min={0}
+          max={1}
+          step={0.05}
+          value={minQuality}
+          onChange={e => {
+            const value = parseFloat(e.target.value)
+            if (!Number.isNaN(value)) onMinQualityChange(Math.min(1, Math.max(0, value)))
+          }}
+          className="w-24"
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={requireChallenge}
+          onChange={e => onRequireChallengeChange(e.target.checked)}
+        />
+        Prompt a random action before check-in
+      </label>
+      <p className="text-xs text-gray-600">
+        A check-in is only recorded after the person blinks and moves their head slightly.
+        Blurry, dark, distant or turned faces below the minimum quality are not matched.
+      </p>
+      <div>
+        <h3 className="text-md font-semibold mb-1">Checked in ({checkIns.length})</h3>
+        <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+          {checkIns.map(checkIn => (
+            <li key={checkIn.personId} className="flex justify-between">
+              <span>{checkIn.name}</span>
+              <span className="text-gray-500">
+                {new Date(checkIn.timestamp).toLocaleTimeString()} ({(checkIn.confidence * 100).toFixed(0)}%)
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
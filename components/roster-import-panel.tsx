@@ -0,0 +1,118 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { importRoster } from '@/lib/api-client'
+import { ImportOutcome, RosterImportReport } from '@/lib/roster-import'
+
+interface RosterImportPanelProps {
+  onImported: () => void
+}
+
+const OUTCOME_LABELS: Record<ImportOutcome, string> = {
+  'enrolled': 'Enrolled',
+  'invalid-row': 'Invalid row',
+  'no-photo': 'No photo',
+  'unreadable-photo': 'Unreadable photo',
+  'no-face': 'No face',
+  'multiple-faces': 'Several faces',
+  'low-quality': 'Low quality',
+}
+
+/**
+ * Enrolls a whole class from a CSV and one reference photo per person,
+ * named by ID, uploaded as a zip or a folder.
+ */
+export default function RosterImportPanel({ onImported }: RosterImportPanelProps) {
+  const [csv, setCsv] = useState<File | null>(null)
+  const [photos, setPhotos] = useState<File[]>([])
+  const [consentGivenBy, setConsentGivenBy] = useState('')
+  const [consentNote, setConsentNote] = useState('')
+  const [consentConfirmed, setConsentConfirmed] = useState(false)
+  const [isWorking, setIsWorking] = useState(false)
+  const [report, setReport] = useState<RosterImportReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!csv) return
+    setIsWorking(true)
+    setError(null)
+    try {
+      const imported = await importRoster({
+        csv,
+        photos,
+        consentGivenBy: consentGivenBy.trim(),
+        consentNote: consentNote.trim(),
+      })
+      setReport(imported)
+      if (imported.enrolled > 0) onImported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const failed = report?.results.filter(result => result.outcome !== 'enrolled') ?? []
+  const ready = csv && photos.length > 0 && consentGivenBy.trim() && consentConfirmed
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">Import a roster</h2>
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <label className="block text-sm">
+          CSV with id, name, class and email columns
+          <Input type="file" accept=".csv,text/csv" onChange={e => setCsv(e.target.files?.[0] ?? null)} />
+        </label>
+        <label className="block text-sm">
+          Photos named by ID, as a zip or several images
+          <Input
+            type="file"
+            accept=".zip,image/*"
+            multiple
+            onChange={e => setPhotos(Array.from(e.target.files ?? []))}
+          />
+        </label>
+        <Input
+          placeholder="Consent given by, e.g. parents via school form"
+          value={consentGivenBy}
+          onChange={e => setConsentGivenBy(e.target.value)}
+        />
+        <Input
+          placeholder="Consent note (optional)"
+          value={consentNote}
+          onChange={e => setConsentNote(e.target.value)}
+        />
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={consentConfirmed} onChange={e => setConsentConfirmed(e.target.checked)} />
+          Everyone in this file has consented to face recognition
+        </label>
+        <Button type="submit" size="sm" disabled={!ready || isWorking}>
+          {isWorking ? 'Importing...' : 'Import'}
+        </Button>
+      </form>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {report && (
+        <div className="text-sm space-y-1">
+          <p className="text-gray-600">
+            {report.enrolled} of {report.results.length} enrolled
+            {report.unusedPhotos.length > 0 && `, ${report.unusedPhotos.length} photos matched nobody`}
+          </p>
+          {failed.length > 0 && (
+            <ul className="max-h-48 overflow-y-auto space-y-1">
+              {failed.map(result => (
+                <li key={result.line}>
+                  <span className="font-medium">{result.name || `Line ${result.line}`}</span>
+                  {' '}<span className="text-red-600">{OUTCOME_LABELS[result.outcome]}</span>
+                  {result.detail && <span className="block text-xs text-gray-600">{result.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
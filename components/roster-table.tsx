@@ -0,0 +1,227 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  ColumnDef,
+  SortingState,
+  ColumnFiltersState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getSortedRowModel,
+  useReactTable,
+} from '@tanstack/react-table'
+import { ArrowUpDown, Pencil } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import StatusBadge, { STATUS_LABELS } from '@/components/status-badge'
+import AttendanceEditor from '@/components/attendance-editor'
+import { AttendanceOverride, AttendanceSession, AttendanceStatus, CheckInRecord, OverrideStatus, attendanceStatus, isExpected } from '@/lib/attendance'
+import { Person } from '@/lib/roster'
+
+export interface RosterRow {
+  personId: string
+  name: string
+  status: AttendanceStatus
+  checkInId?: string
+  firstSeen?: string
+  confidence?: number
+  override?: AttendanceOverride
+}
+
+interface RosterTableProps {
+  roster: Person[]
+  session: AttendanceSession | null
+  checkIns: CheckInRecord[]
+  overrides: AttendanceOverride[]
+  error: string | null
+  onOverride: (personId: string, status: OverrideStatus | null, reason: string) => Promise<boolean>
+  onReassign: (checkInId: string, personId: string, reason: string) => Promise<boolean>
+}
+
+const sortableHeader = (label: string) => {
+  const SortableHeader: ColumnDef<RosterRow>['header'] = ({ column }) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="-ml-3"
+      onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+    >
+      {label}
+      <ArrowUpDown />
+    </Button>
+  )
+  return SortableHeader
+}
+
+const columns: ColumnDef<RosterRow>[] = [
+  {
+    accessorKey: 'name',
+    header: sortableHeader('Name'),
+  },
+  {
+    accessorKey: 'personId',
+    header: sortableHeader('ID'),
+  },
+  {
+    accessorKey: 'status',
+    header: sortableHeader('Status'),
+    filterFn: 'equals',
+    cell: ({ row }) => (
+      <span title={row.original.override ? `Set by ${row.original.override.by}: ${row.original.override.reason}` : undefined}>
+        <StatusBadge status={row.original.status} />
+        {row.original.override && <span className="ml-1 text-xs text-gray-500">manual</span>}
+      </span>
+    ),
+  },
+  {
+    accessorKey: 'firstSeen',
+    header: sortableHeader('First seen'),
+    sortUndefined: 'last',
+    cell: ({ row }) => row.original.firstSeen ? new Date(row.original.firstSeen).toLocaleTimeString() : '—',
+  },
+  {
+    accessorKey: 'confidence',
+    header: sortableHeader('Confidence'),
+    sortUndefined: 'last',
+    cell: ({ row }) => row.original.confidence !== undefined ? `${(row.original.confidence * 100).toFixed(0)}%` : '—',
+  },
+]
+
+export default function RosterTable({ roster, session, checkIns, overrides, error, onOverride, onReassign }: RosterTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([{ id: 'name', desc: false }])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
+  const [globalFilter, setGlobalFilter] = useState('')
+
+  // A session with an expected list only shows those people, plus anyone
+  // else who turned up anyway.
+  const data = useMemo<RosterRow[]>(() => roster.flatMap(person => {
+    const checkIn = checkIns.find(c => c.personId === person.id)
+    const override = overrides.find(o => o.personId === person.id)
+    if (session && !checkIn && !override && !isExpected(session, person.id)) return []
+    return [{
+      personId: person.id,
+      name: person.name,
+      status: session ? attendanceStatus(session, checkIn, override) : 'absent',
+      checkInId: checkIn?.id,
+      firstSeen: checkIn?.timestamp,
+      confidence: checkIn?.confidence,
+      override,
+    }]
+  }), [roster, session, checkIns, overrides])
+
+  const editing = data.find(row => row.personId === editingId)
+
+  const table = useReactTable({
+    data,
+    columns,
+    getRowId: row => row.personId,
+    state: { sorting, columnFilters, globalFilter },
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    onGlobalFilterChange: setGlobalFilter,
+    globalFilterFn: 'includesString',
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+  })
+
+  const statusFilter = (table.getColumn('status')?.getFilterValue() as string | undefined) ?? ''
+  const presentCount = data.filter(row => row.status !== 'absent' && row.status !== 'excused').length
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Roster</h2>
+        <span className="text-sm text-gray-600">{presentCount}/{data.length} present</span>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          placeholder="Search name or ID"
+          value={globalFilter}
+          onChange={e => setGlobalFilter(e.target.value)}
+        />
+        <select
+          className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+          value={statusFilter}
+          onChange={e => table.getColumn('status')?.setFilterValue(e.target.value || undefined)}
+        >
+          <option value="">All</option>
+          {(Object.keys(STATUS_LABELS) as AttendanceStatus[]).map(status => (
+            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+      </div>
+      <div className="max-h-80 overflow-y-auto bg-white rounded-md">
+        <Table>
+          <TableHeader>
+            {table.getHeaderGroups().map(headerGroup => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map(header => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                  </TableHead>
+                ))}
+                <TableHead />
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {table.getRowModel().rows.length ? (
+              table.getRowModel().rows.map(row => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map(cell => (
+                    <TableCell key={cell.id}>
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    <Button
+                      onClick={() => setEditingId(row.id)}
+                      disabled={!session}
+                      variant="ghost"
+                      size="sm"
+                      aria-label={`Edit attendance for ${row.original.name}`}
+                    >
+                      <Pencil />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columns.length + 1} className="h-16 text-center text-gray-500">
+                  {roster.length ? 'No matching people.' : 'Nobody is enrolled yet.'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {editing && error && <p className="text-xs text-red-500">{error}</p>}
+      {editing && (
+        <AttendanceEditor
+          key={editing.personId}
+          name={editing.name}
+          personId={editing.personId}
+          status={editing.status}
+          override={editing.override}
+          checkInId={editing.checkInId}
+          roster={roster}
+          onOverride={(status, reason) => onOverride(editing.personId, status, reason)}
+          onReassign={(personId, reason) => onReassign(editing.checkInId!, personId, reason)}
+          onDone={() => setEditingId(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { LATE_AFTER_MINUTES } from '@/lib/attendance'
+import { User } from '@/lib/auth'
+import { ClassSchedule, DEFAULT_OPEN_BEFORE_MINUTES, WEEKDAY_LABELS } from '@/lib/schedules'
+import { Person } from '@/lib/roster'
+
+interface SchedulePanelProps {
+  schedules: ClassSchedule[]
+  roster: Person[]
+  // Accounts a class can be put in the charge of.
+  users: User[]
+  error: string | null
+  onCreate: (input: Omit<ClassSchedule, 'id' | 'createdAt'>) => Promise<boolean>
+  onRemove: (id: string) => void
+}
+
+const describeRules = (schedule: ClassSchedule) => {
+  const parts = [`on time within ${schedule.graceMinutes} min`]
+  if (schedule.lateCutoffMinutes !== null) parts.push(`too late after ${schedule.lateCutoffMinutes} min`)
+  parts.push(schedule.expectedIds.length > 0 ? `${schedule.expectedIds.length} expected` : 'whole roster')
+  return parts.join(', ')
+}
+
+export default function SchedulePanel({
+  schedules,
+  roster,
+  users,
+  error,
+  onCreate,
+  onRemove,
+}: SchedulePanelProps) {
+  const [className, setClassName] = useState('')
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5])
+  const [startTime, setStartTime] = useState('08:00')
+  const [endTime, setEndTime] = useState('09:00')
+  const [graceMinutes, setGraceMinutes] = useState(LATE_AFTER_MINUTES)
+  const [lateCutoff, setLateCutoff] = useState('')
+  const [expectedIds, setExpectedIds] = useState<string[]>([])
+  const [teacherId, setTeacherId] = useState('')
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const created = await onCreate({
+      className: className.trim(),
+      weekdays,
+      startTime,
+      endTime,
+      graceMinutes,
+      lateCutoffMinutes: lateCutoff === '' ? null : Number(lateCutoff),
+      openBeforeMinutes: DEFAULT_OPEN_BEFORE_MINUTES,
+      expectedIds,
+      teacherId: teacherId || undefined,
+    })
+    if (created) {
+      setClassName('')
+      setExpectedIds([])
+    }
+  }
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">Class schedules</h2>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <ul className="text-sm space-y-1">
+        {schedules.map(schedule => (
+          <li key={schedule.id} className="flex items-center justify-between gap-2">
+            <span>
+              {schedule.className}, {schedule.weekdays.map(day => WEEKDAY_LABELS[day]).join('/')}
+              {' '}{schedule.startTime}–{schedule.endTime}
+              <span className="block text-xs text-gray-500">
+                {describeRules(schedule)}
+                {schedule.teacherId && `, ${users.find(u => u.id === schedule.teacherId)?.name ?? 'former teacher'}`}
+              </span>
+            </span>
+            <Button onClick={() => onRemove(schedule.id)} variant="outline" size="sm">
+              Remove
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <Input placeholder="Class" value={className} onChange={e => setClassName(e.target.value)} />
+        <div className="flex flex-wrap gap-2 text-sm">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <label key={label} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={weekdays.includes(day)}
+                onChange={() => setWeekdays(current => toggle(current, day).sort((a, b) => a - b))}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input type="time" value={startTime} onChange={e => setStartTime(e.target.value)} />
+          <Input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} />
+        </div>
+        <div className="flex gap-2 text-sm">
+          <label className="flex items-center gap-2">
+            Grace (min)
+            <Input
+              type="number"
+              min={0}
+              value={graceMinutes}
+              onChange={e => setGraceMinutes(Math.max(0, Number(e.target.value)))}
+              className="w-20"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Late cut-off (min)
+            <Input
+              type="number"
+              min={0}
+              placeholder="none"
+              value={lateCutoff}
+              onChange={e => setLateCutoff(e.target.value)}
+              className="w-20"
+            />
+          </label>
+        </div>
+        <select
+          className="w-full h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+          value={teacherId}
+          onChange={e => setTeacherId(e.target.value)}
+        >
+          <option value="">No teacher (admins only)</option>
+          {users.filter(user => user.role === 'teacher').map(user => (
+            <option key={user.id} value={user.id}>{user.name}</option>
+          ))}
+        </select>
+        {roster.length > 0 && (
+          <details className="text-sm">
+            <summary className="cursor-pointer">
+              Expected people ({expectedIds.length > 0 ? expectedIds.length : 'everyone'})
+            </summary>
+            <div className="max-h-32 overflow-y-auto mt-1 space-y-1">
+              {roster.map(person => (
+                <label key={person.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={expectedIds.includes(person.id)}
+                    onChange={() => setExpectedIds(current => toggle(current, person.id))}
+                  />
+                  {person.name}
+                </label>
+              ))}
+            </div>
+          </details>
+        )}
+        <Button type="submit" size="sm" disabled={!className.trim() || weekdays.length === 0}>
+          Add schedule
+        </Button>
+      </form>
+      <p className="text-xs text-gray-600">
+        Sessions open {DEFAULT_OPEN_BEFORE_MINUTES} minutes before class and close at the end time.
+        Expected people not seen by then are marked absent.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import SyncStatus from '@/components/sync-status'
+import { AttendanceSession } from '@/lib/attendance'
+import { localDate } from '@/lib/schedules'
+
+interface SessionPanelProps {
+  sessions: AttendanceSession[]
+  activeSession: AttendanceSession | null
+  error: string | null
+  // Offline check-in queue.
+  pendingCount: number
+  refusedCount: number
+  isOffline: boolean
+  onSelect: (id: string) => void
+  onCreate: (input: { className: string; date: string; startTime: string; endTime: string; open: boolean }) => void
+  onOpen: (id: string) => void
+  onClose: (id: string) => void
+}
+
+const today = () => localDate(new Date())
+
+export default function SessionPanel({
+  sessions,
+  activeSession,
+  error,
+  pendingCount,
+  refusedCount,
+  isOffline,
+  onSelect,
+  onCreate,
+  onOpen,
+  onClose,
+}: SessionPanelProps) {
+  const [className, setClassName] = useState('')
+  const [date, setDate] = useState(today)
+  const [startTime, setStartTime] = useState('08:00')
+  const [endTime, setEndTime] = useState('09:00')
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    onCreate({ className: className.trim(), date, startTime, endTime, open: true })
+    setClassName('')
+  }
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">Session</h2>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <SyncStatus pendingCount={pendingCount} refusedCount={refusedCount} isOffline={isOffline} className="text-xs" />
+      {activeSession ? (
+        <div className="flex items-center justify-between text-sm">
+          <span>
+            {activeSession.className}, {activeSession.date} {activeSession.startTime}–{activeSession.endTime}
+            <span className="ml-2 text-gray-500">({activeSession.status})</span>
+          </span>
+          {activeSession.status === 'open' ? (
+            <Button onClick={() => onClose(activeSession.id)} variant="outline" size="sm">
+              Close
+            </Button>
+          ) : activeSession.status === 'scheduled' ? (
+            <Button onClick={() => onOpen(activeSession.id)} size="sm">
+              Open
+            </Button>
+          ) : null}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-600">Open a session to record check-ins.</p>
+      )}
+      <select
+        className="w-full h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+        value={activeSession?.id ?? ''}
+        onChange={e => onSelect(e.target.value)}
+      >
+        <option value="" disabled>Select a session</option>
+        {sessions.map(session => (
+          <option key={session.id} value={session.id}>
+            {session.className} — {session.date} {session.startTime} ({session.status})
+          </option>
+        ))}
+      </select>
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <Input placeholder="Class" value={className} onChange={e => setClassName(e.target.value)} />
+        <div className="flex gap-2">
+          <Input type="date" value={date} onChange={e => setDate(e.target.value)} />
+          <Input type="time" value={startTime} onChange={e => setStartTime(e.target.value)} />
+          <Input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} />
+        </div>
+        <Button type="submit" size="sm" disabled={!className.trim()}>
+          Create and open
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+'use client'
+
+import { AttendanceStatus } from '@/lib/attendance'
+import { cn } from '@/lib/utils'
+
+const STATUS_STYLES: Record<AttendanceStatus, string> = {
+  'on-time': 'bg-green-100 text-green-800',
+  'late': 'bg-yellow-100 text-yellow-800',
+  'too-late': 'bg-orange-100 text-orange-800',
+  'absent': 'bg-gray-200 text-gray-600',
+  'excused': 'bg-sky-100 text-sky-800',
+}
+
+export const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  'on-time': 'On time',
+  'late': 'Late',
+  'too-late': 'Too late',
+  'absent': 'Absent',
+  'excused': 'Excused',
+}
+
+export default function StatusBadge({ status }: { status: AttendanceStatus }) {
+  return <span className={cn('rounded px-2 py-0.5 text-xs font-medium', STATUS_STYLES[status])}>{STATUS_LABELS[status]}</span>
+}
@@ -0,0 +1,25 @@
+'use client'
+
+interface SyncStatusProps {
+  pendingCount: number
+  refusedCount: number
+  isOffline: boolean
+  className?: string
+}
+
+/**
+ * How many check-ins are still waiting on this device to reach the server.
+ */
+export default function SyncStatus({ pendingCount, refusedCount, isOffline, className = '' }: SyncStatusProps) {
+  if (pendingCount === 0 && refusedCount === 0 && !isOffline) return null
+  const parts = [
+    isOffline ? 'Offline' : pendingCount > 0 ? 'Syncing' : 'Synced',
+    pendingCount > 0 && `${pendingCount} check-in${pendingCount === 1 ? '' : 's'} waiting to sync`,
+    refusedCount > 0 && `${refusedCount} refused by the server`,
+  ].filter(Boolean)
+  return (
+    <p className={`font-medium ${pendingCount > 0 || isOffline ? 'text-amber-600' : ''} ${className}`}>
+      {parts.join(' — ')}
+    </p>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useRoster } from '@/hooks/use-roster'
+import { useSessions } from '@/hooks/use-sessions'
+import { useUnknownClusters } from '@/hooks/use-unknown-clusters'
+import { Person } from '@/lib/roster'
+import { ClusterIdentification, UnknownCluster } from '@/lib/unknown-faces'
+import { cn } from '@/lib/utils'
+
+interface ClusterCardProps {
+  cluster: UnknownCluster
+  roster: Person[]
+  checkedInIds: Set<string>
+  onIdentify: (identification: ClusterIdentification) => Promise<boolean>
+  onDiscard: (faceIds?: string[]) => void
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+
+function ClusterCard({ cluster, roster, checkedInIds, onIdentify, onDiscard }: ClusterCardProps) {
+  // Faces left out because they show someone else.
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const [mode, setMode] = useState<'existing' | 'new'>('existing')
+  const [personId, setPersonId] = useState(cluster.suggestion?.personId ?? '')
+  const [newId, setNewId] = useState('')
+  const [newName, setNewName] = useState('')
+  const [consentGivenBy, setConsentGivenBy] = useState('')
+  const [consentNote, setConsentNote] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+
+  const selected = cluster.faces.filter(face => !excluded.has(face.id))
+  const faceIds = excluded.size > 0 ? selected.map(face => face.id) : undefined
+
+  const toggle = (id: string) => {
+    setExcluded(current => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsWorking(true)
+    await onIdentify(mode === 'existing'
+      ? { personId, faceIds }
+      : { newPerson: { id: newId.trim(), name: newName.trim(), consentGivenBy: consentGivenBy.trim(), consentNote: consentNote.trim() }, faceIds })
+    setIsWorking(false)
+  }
+
+  const canSubmit = selected.length > 0 && !isWorking && (mode === 'existing'
+    ? personId !== ''
+    : newId.trim() !== '' && newName.trim() !== '' && consentGivenBy.trim() !== '')
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-md font-semibold">
+          {cluster.faces.length} {cluster.faces.length === 1 ? 'face' : 'faces'}, seen {formatTime(cluster.firstSeen)}
+          {cluster.lastSeen !== cluster.firstSeen && ` to ${formatTime(cluster.lastSeen)}`}
+        </h2>
+        <Button onClick={() => onDiscard(faceIds)} disabled={selected.length === 0} variant="outline" size="sm">
+          Discard {excluded.size > 0 ? 'selected' : 'all'}
+        </Button>
+      </div>
+      <p className="text-xs text-gray-600">Click a face to leave it out if it shows someone else.</p>
+      <div className="flex flex-wrap gap-2">
+        {cluster.faces.map(face => (
+          <button
+            key={face.id}
+            type="button"
+            onClick={() => toggle(face.id)}
+            title={`Seen ${new Date(face.seenAt).toLocaleTimeString()} by ${face.capturedBy}, quality ${(face.quality * 100).toFixed(0)}%`}
+            className={cn('rounded', excluded.has(face.id) && 'opacity-30')}
+          >
+            {face.hasSnapshot ? (
+              <Image
+                src={`/api/sessions/${cluster.sessionId}/unknown-faces/${face.id}/snapshot`}
+                alt={`Unknown face seen at ${formatTime(face.seenAt)}`}
+                width={64}
+                height={64}
+                unoptimized
+                className="rounded"
+              />
+            ) : (
+              <span className="flex h-16 w-16 items-center justify-center rounded bg-gray-200 text-xs text-gray-500">
+                No image
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+      {cluster.suggestion && (
+        <p className="text-xs text-gray-600">
+          Closest enrolled person: {cluster.suggestion.name} ({(cluster.suggestion.similarity * 100).toFixed(0)}%)
+        </p>
+      )}
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <div className="flex gap-4 text-sm">
+          <label className="flex items-center gap-1">
+            <input type="radio" checked={mode === 'existing'} onChange={() => setMode('existing')} />
+            Enrolled person
+          </label>
+          <label className="flex items-center gap-1">
+            <input type="radio" checked={mode === 'new'} onChange={() => setMode('new')} />
+            Someone new
+          </label>
+        </div>
+        {mode === 'existing' ? (
+          <select
+            className="w-full h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+            value={personId}
+            onChange={e => setPersonId(e.target.value)}
+          >
+            <option value="" disabled>Select a person</option>
+            {[...roster].sort((a, b) => a.name.localeCompare(b.name)).map(person => (
+              <option key={person.id} value={person.id}>
+                {person.name} ({person.id}){checkedInIds.has(person.id) && ', checked in'}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <Input placeholder="ID" value={newId} onChange={e => setNewId(e.target.value)} />
+              <Input placeholder="Full name" value={newName} onChange={e => setNewName(e.target.value)} />
+            </div>
+            <Input
+              placeholder="Consent given by (the person or a guardian)"
+              value={consentGivenBy}
+              onChange={e => setConsentGivenBy(e.target.value)}
+            />
+            <Input placeholder="Consent note (optional)" value={consentNote} onChange={e => setConsentNote(e.target.value)} />
+          </>
+        )}
+        <Button type="submit" size="sm" disabled={!canSubmit}>
+          {mode === 'existing' ? 'Label and check in' : 'Enroll and check in'}
+        </Button>
+      </form>
+    </div>
+  )
+}
+
+/**
+ * Faces the recognizer could not match during a session, grouped by
+ * probable person. Staff label each group as an enrolled person or enroll
+ * them, which adds the faces to their template and checks them in as of
+ * when they were first seen.
+ */
+export default function UnknownFaceReview({ initialSessionId }: { initialSessionId?: string }) {
+  const { sessions, activeSession, setActiveSessionId, checkIns, addRecords } = useSessions({ loadOverrides: false })
+  const { roster, reload: reloadRoster } = useRoster()
+  const { clusters, error, isLoading, identify, discard } = useUnknownClusters(activeSession?.id ?? null)
+
+  useEffect(() => {
+    if (initialSessionId) setActiveSessionId(initialSessionId)
+  }, [initialSessionId, setActiveSessionId])
+
+  const checkedInIds = new Set(checkIns.map(checkIn => checkIn.personId))
+
+  const handleIdentify = async (clusterId: string, identification: ClusterIdentification) => {
+    const result = await identify(clusterId, identification)
+    if (!result) return false
+    addRecords([result.checkIn])
+    if (identification.newPerson) reloadRoster()
+    return true
+  }
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h1 className="text-2xl font-semibold mr-auto">Unknown faces</h1>
+        <select
+          className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+          value={activeSession?.id ?? ''}
+          onChange={e => setActiveSessionId(e.target.value)}
+        >
+          <option value="" disabled>Select a session</option>
+          {sessions.map(session => (
+            <option key={session.id} value={session.id}>
+              {session.className} — {session.date} {session.startTime} ({session.status})
+            </option>
+          ))}
+        </select>
+        <Button asChild variant="outline">
+          <Link href="/">Back to camera</Link>
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {!activeSession ? (
+        <p className="text-sm text-gray-600">Select a session to review the faces nobody was recognized as.</p>
+      ) : isLoading && clusters.length === 0 ? (
+        <p className="text-sm text-gray-600">Loading unknown faces…</p>
+      ) : clusters.length === 0 ? (
+        <p className="text-sm text-gray-600">No unknown faces left to review in this session.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {clusters.map(cluster => (
+            <ClusterCard
+              key={`${cluster.id}:${cluster.faces.length}`}
+              cluster={cluster}
+              roster={roster}
+              checkedInIds={checkedInIds}
+              onIdentify={identification => handleIdentify(cluster.id, identification)}
+              onDiscard={faceIds => discard(cluster.id, faceIds)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useWebhooks } from '@/hooks/use-webhooks'
+import { DeliveryStatus, WEBHOOK_EVENTS, WebhookDelivery, WebhookEventType } from '@/lib/webhooks'
+import { cn } from '@/lib/utils'
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  'checkin.recorded': 'Check-in recorded',
+  'session.closed': 'Session closed',
+  'person.absent': 'Person absent',
+  'override.applied': 'Status changed by hand',
+}
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  delivered: 'text-green-700',
+  pending: 'text-yellow-700',
+  failed: 'text-red-600',
+}
+
+const describeDelivery = (delivery: WebhookDelivery) => {
+  if (delivery.status === 'delivered') return `Delivered (${delivery.responseStatus})`
+  const outcome = delivery.error ?? 'Not sent yet'
+  if (delivery.status === 'failed') return `Failed after ${delivery.attempts} attempts: ${outcome}`
+  return delivery.attempts === 0
+    ? 'Sending…'
+    : `${outcome}. Retrying at ${new Date(delivery.nextAttemptAt!).toLocaleTimeString()}`
+}
+
+function DeliveryLog({ deliveries }: { deliveries: WebhookDelivery[] | undefined }) {
+  if (!deliveries) return <p className="text-xs text-gray-600">Loading deliveries…</p>
+  if (deliveries.length === 0) return <p className="text-xs text-gray-600">Nothing sent yet.</p>
+  return (
+    <ul className="text-xs space-y-1 max-h-48 overflow-y-auto">
+      {deliveries.map(delivery => (
+        <li key={delivery.id} className="flex justify-between gap-2">
+          <span>
+            {new Date(delivery.createdAt).toLocaleString()} <span className="font-mono">{delivery.event}</span>
+          </span>
+          <span className={cn('text-right', STATUS_STYLES[delivery.status])}>{describeDelivery(delivery)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * URLs told about check-ins, closed sessions, absences and manual changes
+ * as they happen, with a log of what was sent to each.
+ */
+export default function WebhookPanel() {
+  const { webhooks, deliveries, error, loadDeliveries, create, update, remove, sendTest } = useWebhooks()
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [events, setEvents] = useState<Set<WebhookEventType>>(new Set(WEBHOOK_EVENTS))
+  // Shown once after creating, to configure the receiver with.
+  const [newSecret, setNewSecret] = useState<{ url: string; secret: string } | null>(null)
+  const [openLog, setOpenLog] = useState<string | null>(null)
+  const [testing, setTesting] = useState<string | null>(null)
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setEvents(current => {
+      const next = new Set(current)
+      if (next.has(event)) next.delete(event)
+      else next.add(event)
+      return next
+    })
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const secret = await create({
+      url: url.trim(),
+      events: WEBHOOK_EVENTS.filter(event => events.has(event)),
+      description: description.trim(),
+    })
+    if (secret) {
+      setNewSecret({ url: url.trim(), secret })
+      setUrl('')
+      setDescription('')
+    }
+  }
+
+  const toggleLog = (id: string) => {
+    setOpenLog(current => (current === id ? null : id))
+    if (openLog !== id) loadDeliveries(id)
+  }
+
+  const handleTest = async (id: string) => {
+    setTesting(id)
+    await sendTest(id)
+    setTesting(null)
+    setOpenLog(id)
+  }
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-3">
+      <h2 className="text-lg font-semibold">Webhooks</h2>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <ul className="text-sm space-y-3">
+        {webhooks.map(webhook => (
+          <li key={webhook.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="break-all">
+                {webhook.url}
+                {webhook.description && <span className="text-xs text-gray-500"> {webhook.description}</span>}
+              </span>
+              <label className="flex items-center gap-1 text-xs">
+                <input
+                  type="checkbox"
+                  checked={webhook.active}
+                  onChange={e => update(webhook.id, { active: e.target.checked })}
+                />
+                Active
+              </label>
+            </div>
+            <p className="text-xs text-gray-600">{webhook.events.map(event => EVENT_LABELS[event]).join(', ')}</p>
+            <div className="flex gap-2">
+              <Button onClick={() => handleTest(webhook.id)} disabled={testing !== null} variant="outline" size="sm">
+                {testing === webhook.id ? 'Sending…' : 'Send test event'}
+              </Button>
+              <Button onClick={() => toggleLog(webhook.id)} variant="outline" size="sm">
+                {openLog === webhook.id ? 'Hide log' : 'Delivery log'}
+              </Button>
+              {openLog === webhook.id && (
+                <Button onClick={() => loadDeliveries(webhook.id)} variant="ghost" size="sm">
+                  Refresh
+                </Button>
+              )}
+              <Button onClick={() => remove(webhook.id)} variant="outline" size="sm" className="ml-auto">
+                Delete
+              </Button>
+            </div>
+            {openLog === webhook.id && <DeliveryLog deliveries={deliveries[webhook.id]} />}
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleCreate} className="space-y-2">
+        <Input placeholder="https://example.org/attendance-hook" value={url} onChange={e => setUrl(e.target.value)} />
+        <Input placeholder="Description (optional)" value={description} onChange={e => setDescription(e.target.value)} />
+        <div className="grid grid-cols-2 gap-1 text-sm">
+          {WEBHOOK_EVENTS.map(event => (
+            <label key={event} className="flex items-center gap-1">
+              <input type="checkbox" checked={events.has(event)} onChange={() => toggleEvent(event)} />
+              {EVENT_LABELS[event]}
+            </label>
+          ))}
+        </div>
+        <Button type="submit" size="sm" disabled={!url.trim() || events.size === 0}>
+          Add webhook
+        </Button>
+      </form>
+      {newSecret && (
+        <div className="text-xs space-y-1">
+          <p>Signing secret for {newSecret.url}. Give it to the receiver now; it is not shown again.</p>
+          <Input readOnly value={newSecret.secret} onFocus={e => e.target.select()} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { KioskDevice, User } from '@/lib/auth'
+import * as api from '@/lib/api-client'
+
+/**
+ * Accounts and kiosk devices, for admins. Nothing is loaded until `enabled`.
+ */
+export function useAccess(enabled: boolean) {
+  const [users, setUsers] = useState<User[]>([])
+  const [devices, setDevices] = useState<KioskDevice[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!enabled) return
+    Promise.all([api.fetchUsers(), api.fetchDevices()])
+      .then(([loadedUsers, loadedDevices]) => {
+        setUsers(loadedUsers)
+        setDevices(loadedDevices)
+      })
+      .catch(err => {
+        console.error('Error loading accounts:', err)
+        setError('Failed to load accounts and devices.')
+      })
+  }, [enabled])
+
+  const addUser = useCallback(async (input: Parameters<typeof api.createUser>[0]) => {
+    try {
+      const user = await api.createUser(input)
+      setUsers(current => [...current, user].sort((a, b) => a.username.localeCompare(b.username)))
+      setError(null)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      return false
+    }
+  }, [])
+
+  const removeUser = useCallback(async (id: string) => {
+    try {
+      await api.deleteUser(id)
+      setUsers(current => current.filter(u => u.id !== id))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }, [])
+
+  // Returns the new device's token, which cannot be fetched again.
+  const registerDevice = useCallback(async (name: string) => {
+    try {
+      const { device, token } = await api.createDevice(name)
+      setDevices(current => [...current, device])
+      setError(null)
+      return token
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      return null
+    }
+  }, [])
+
+  const removeDevice = useCallback(async (id: string) => {
+    try {
+      await api.deleteDevice(id)
+      setDevices(current => current.filter(d => d.id !== id))
+      setError(null)
+    } catch (err) {
+      console.error('Error revoking a device:', err)
+      setError('Failed to revoke that device.')
+    }
+  }, [])
+
+  return { users, devices, error, addUser, removeUser, registerDevice, removeDevice }
+}
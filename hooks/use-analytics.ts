@@ -0,0 +1,35 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AttendanceAnalytics } from '@/lib/analytics'
+import * as api from '@/lib/api-client'
+
+export function useAnalytics(from: string, to: string) {
+  const [analytics, setAnalytics] = useState<AttendanceAnalytics | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!from || !to || from > to) return
+    // A later range replaces an earlier one still loading.
+    let cancelled = false
+    setIsLoading(true)
+    api.fetchAnalytics(from, to)
+      .then(result => {
+        if (cancelled) return
+        setAnalytics(result)
+        setError(null)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Error loading attendance analytics:', err)
+        setError('Failed to load attendance analytics.')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [from, to])
+
+  return { analytics, isLoading, error }
+}
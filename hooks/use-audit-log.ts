@@ -0,0 +1,33 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { AuditEntry } from '@/lib/audit'
+import * as api from '@/lib/api-client'
+
+/**
+ * The audit log of one session, newest first.
+ */
+export function useAuditLog(sessionId: string | null) {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    if (!sessionId) {
+      setEntries([])
+      return
+    }
+    try {
+      setEntries(await api.fetchAudit({ sessionId }))
+      setError(null)
+    } catch (err) {
+      console.error('Error loading the audit log:', err)
+      setError('Failed to load the audit log.')
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { entries, error, reload }
+}
@@ -0,0 +1,30 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { BackendPreference, BACKEND_LABELS } from '@/lib/pipeline-protocol'
+
+const STORAGE_KEY = 'jud-attendance:backend'
+
+const isPreference = (value: string | null): value is BackendPreference =>
+  value !== null && value in BACKEND_LABELS
+
+/**
+ * The inference backend chosen on this device, remembered in localStorage.
+ * Null until the stored choice has been read, so the worker is not started
+ * once with the default only to be replaced straight away.
+ */
+export function useBackendPreference() {
+  const [preference, setPreferenceState] = useState<BackendPreference | null>(null)
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    setPreferenceState(isPreference(stored) ? stored : 'auto')
+  }, [])
+
+  const setPreference = useCallback((value: BackendPreference) => {
+    window.localStorage.setItem(STORAGE_KEY, value)
+    setPreferenceState(value)
+  }, [])
+
+  return { preference, setPreference }
+}
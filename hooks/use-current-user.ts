@@ -0,0 +1,55 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Principal } from '@/lib/auth'
+import * as api from '@/lib/api-client'
+import { clearCache, readCache, writeCache } from '@/lib/offline-store'
+
+const PRINCIPAL_CACHE_KEY = 'principal'
+
+/**
+ * Who this browser is signed in as, or null once it is known that nobody is.
+ * While the server is unreachable, the last known sign-in is assumed.
+ */
+export function useCurrentUser() {
+  const [principal, setPrincipal] = useState<Principal | null>(null)
+  const [loaded, setLoaded] = useState(false)
+
+  const reload = useCallback(async () => {
+    try {
+      const current = await api.fetchCurrentPrincipal()
+      setPrincipal(current)
+      writeCache(PRINCIPAL_CACHE_KEY, current).catch(err => console.error('Error caching the sign-in:', err))
+    } catch (err) {
+      const cached = err instanceof api.ApiError
+        ? undefined
+        : await readCache<Principal>(PRINCIPAL_CACHE_KEY).catch(() => undefined)
+      setPrincipal(cached ?? null)
+    } finally {
+      setLoaded(true)
+    }
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  // Cached face templates are dropped with the sign-in, first so that they
+  // go even when the server cannot be reached; queued check-ins stay and are
+  // sent at the next sign-in.
+  const signOut = useCallback(async () => {
+    try {
+      await clearCache()
+    } catch (err) {
+      console.error('Error clearing the offline cache:', err)
+    }
+    try {
+      await api.signOut()
+    } catch (err) {
+      console.error('Error signing out:', err)
+    }
+    window.location.assign('/login')
+  }, [])
+
+  return { principal, loaded, reload, signOut }
+}
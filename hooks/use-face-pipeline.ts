@@ -0,0 +1,202 @@
+'use client'
+
+import { useState, useEffect, useRef, RefObject } from 'react'
+import {
+  BackendId,
+  BackendPreference,
+  PipelineConfig,
+  PipelineRequest,
+  PipelineResponse,
+  PipelineResult,
+} from '@/lib/pipeline-protocol'
+
+export interface PipelineStats {
+  fps: number
+  // Time from grabbing a frame to having its result back on the page.
+  latencyMs: number
+  inferenceMs: number
+  // Current wait between a result and the next frame.
+  intervalMs: number
+  hidden: boolean
+}
+
+const MIN_INTERVAL_MS = 50
+const MAX_INTERVAL_MS = 1000
+const HIDDEN_INTERVAL_MS = 2000
+// Wait this fraction of the measured latency before sending the next frame,
+// so slow machines get proportionally more idle time.
+const IDLE_RATIO = 0.5
+// Weight of the newest sample in the latency moving average.
+const SMOOTHING = 0.2
+const FPS_WINDOW_MS = 2000
+
+const initialStats: PipelineStats = {
+  fps: 0,
+  latencyMs: 0,
+  inferenceMs: 0,
+  intervalMs: MAX_INTERVAL_MS,
+  hidden: false,
+}
+
+/**
+ * Starts the inference worker shared by every camera feed and keeps its
+ * configuration in sync. Changing the backend preference replaces the worker,
+ * since TensorFlow.js cannot cleanly switch backends with models loaded.
+ */
+export function useInferenceWorker(config: PipelineConfig, preference: BackendPreference | null) {
+  const [worker, setWorker] = useState<Worker | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [backend, setBackend] = useState<BackendId | null>(null)
+  const [fallbacks, setFallbacks] = useState<string[]>([])
+
+  useEffect(() => {
+    if (!preference) return
+    setIsLoading(true)
+    setError(null)
+    setBackend(null)
+    setFallbacks([])
+    const instance = new Worker(new URL('../workers/face-pipeline.worker.ts', import.meta.url))
+    instance.addEventListener('message', (event: MessageEvent<PipelineResponse>) => {
+      const message = event.data
+      if (message.type === 'ready') {
+        setIsLoading(false)
+        setBackend(message.backend)
+        setFallbacks(message.failures)
+      } else if (message.type === 'error' && message.fatal) {
+        setError('Failed to load the face detection models.')
+        setIsLoading(false)
+      }
+    })
+    instance.postMessage({ type: 'init', backend: preference } satisfies PipelineRequest)
+    setWorker(instance)
+    return () => {
+      instance.terminate()
+      setWorker(null)
+    }
+  }, [preference])
+
+  useEffect(() => {
+    worker?.postMessage({ type: 'configure', config } satisfies PipelineRequest)
+  }, [worker, config])
+
+  return { worker: isLoading ? null : worker, isLoading, error, backend, fallbacks }
+}
+
+/**
+ * Feeds frames from `videoRef` to the worker under `streamId`. Frames are sent
+ * one at a time, paced by how long the previous one took, and slowed right
+ * down while the tab is hidden.
+ */
+export function useFrameLoop(
+  worker: Worker | null,
+  streamId: string,
+  videoRef: RefObject<HTMLVideoElement>,
+  { isStreaming, onResult }: {
+    isStreaming: boolean
+    onResult: (result: PipelineResult) => void
+  }
+) {
+  const [error, setError] = useState<string | null>(null)
+  const [stats, setStats] = useState<PipelineStats>(initialStats)
+  const onResultRef = useRef(onResult)
+
+  useEffect(() => {
+    onResultRef.current = onResult
+  }, [onResult])
+
+  useEffect(() => {
+    if (!worker || !isStreaming) return
+
+    let cancelled = false
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    let inFlight = false
+    let sentAt = 0
+    let latency = 0
+    let resultTimes: number[] = []
+
+    const send = async () => {
+      timeoutId = undefined
+      const video = videoRef.current
+      if (cancelled || inFlight || !video) return
+      if (video.readyState !== video.HAVE_ENOUGH_DATA) {
+        schedule(MIN_INTERVAL_MS)
+        return
+      }
+      inFlight = true
+      try {
+        const frame = await createImageBitmap(video)
+        if (cancelled) {
+          frame.close()
+          return
+        }
+        sentAt = performance.now()
+        worker.postMessage({ type: 'frame', streamId, frame, timestamp: Date.now() } satisfies PipelineRequest, [frame])
+      } catch (err) {
+        // The video had no frame to give, for example while the camera is
+        // being switched. Nothing reached the worker, so try again shortly.
+        console.error('Error capturing a camera frame:', err)
+        inFlight = false
+        if (!cancelled) schedule(MIN_INTERVAL_MS)
+      }
+    }
+
+    const schedule = (delay: number) => {
+      if (timeoutId) clearTimeout(timeoutId)
+      timeoutId = setTimeout(send, delay)
+    }
+
+    const nextInterval = () => document.hidden
+      ? HIDDEN_INTERVAL_MS
+      : Math.min(MAX_INTERVAL_MS, Math.max(MIN_INTERVAL_MS, latency * IDLE_RATIO))
+
+    const handleMessage = (event: MessageEvent<PipelineResponse>) => {
+      const message = event.data
+      if (message.type === 'ready' || message.streamId !== streamId) return
+      inFlight = false
+      if (cancelled) return
+
+      if (message.type === 'result') {
+        const now = performance.now()
+        latency = latency === 0 ? now - sentAt : latency + SMOOTHING * (now - sentAt - latency)
+        resultTimes = [...resultTimes.filter(t => now - t < FPS_WINDOW_MS), now]
+        const intervalMs = nextInterval()
+        setStats(current => ({
+          ...current,
+          fps: resultTimes.length / (FPS_WINDOW_MS / 1000),
+          latencyMs: latency,
+          inferenceMs: message.result.inferenceMs,
+          intervalMs,
+          hidden: document.hidden,
+        }))
+        setError(null)
+        onResultRef.current(message.result)
+        schedule(intervalMs)
+      } else {
+        setError('Face detection failed. Please try again.')
+        schedule(nextInterval())
+      }
+    }
+
+    // Coming back to the tab should not wait out the long hidden interval.
+    const handleVisibilityChange = () => {
+      setStats(current => ({ ...current, hidden: document.hidden }))
+      if (!document.hidden && !inFlight) schedule(0)
+    }
+
+    worker.addEventListener('message', handleMessage)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    send()
+
+    return () => {
+      cancelled = true
+      if (timeoutId) clearTimeout(timeoutId)
+      worker.removeEventListener('message', handleMessage)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      worker.postMessage({ type: 'reset', streamId } satisfies PipelineRequest)
+      setStats(initialStats)
+    }
+  }, [worker, streamId, isStreaming, videoRef])
+
+  return { error, stats }
+}
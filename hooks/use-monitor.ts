@@ -0,0 +1,40 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { MonitorSnapshot } from '@/lib/monitoring'
+
+/**
+ * Live rooms and devices from the server's monitor stream. The browser
+ * reconnects on its own after a dropped connection; `connected` is false in
+ * the meantime and the last snapshot stays on screen.
+ */
+export function useMonitor() {
+  const [snapshot, setSnapshot] = useState<MonitorSnapshot | null>(null)
+  const [connected, setConnected] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const source = new EventSource('/api/monitor')
+    source.onopen = () => {
+      setConnected(true)
+      setError(null)
+    }
+    source.onmessage = event => {
+      try {
+        setSnapshot(JSON.parse(event.data) as MonitorSnapshot)
+      } catch (err) {
+        console.error('Error reading monitor update:', err)
+      }
+    }
+    source.onerror = () => {
+      setConnected(false)
+      // A refused request is not retried.
+      if (source.readyState === EventSource.CLOSED) {
+        setError('Could not open the monitor. Only admins can see it.')
+      }
+    }
+    return () => source.close()
+  }, [])
+
+  return { snapshot, connected, error }
+}
@@ -0,0 +1,58 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Person, clearLegacyRoster, upsertPerson, removePerson } from '@/lib/roster'
+import * as api from '@/lib/api-client'
+import { readCache, writeCache } from '@/lib/offline-store'
+
+// The roster is cached on the device so recognition works offline.
+const ROSTER_CACHE_KEY = 'roster'
+
+export function useRoster() {
+  const [roster, setRoster] = useState<Person[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      const people = await api.fetchPeople()
+      setRoster(people)
+      writeCache(ROSTER_CACHE_KEY, people).catch(err => console.error('Error caching the roster:', err))
+    } catch (err) {
+      console.error('Error loading the roster:', err)
+      const cached = err instanceof api.ApiError
+        ? undefined
+        : await readCache<Person[]>(ROSTER_CACHE_KEY).catch(() => undefined)
+      if (cached) setRoster(cached)
+      else setError('Failed to load the roster.')
+    }
+  }, [])
+
+  useEffect(() => {
+    clearLegacyRoster()
+    reload()
+  }, [reload])
+
+  const enroll = useCallback(async (person: Person) => {
+    try {
+      const saved = await api.savePerson(person)
+      setRoster(current => upsertPerson(current, saved))
+      setError(null)
+    } catch (err) {
+      console.error('Error enrolling a person:', err)
+      setError(`Failed to enroll ${person.name}.`)
+    }
+  }, [])
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await api.deletePerson(id)
+      setRoster(current => removePerson(current, id))
+      setError(null)
+    } catch (err) {
+      console.error('Error removing a person:', err)
+      setError('Failed to remove that person.')
+    }
+  }, [])
+
+  return { roster, error, enroll, remove, reload }
+}
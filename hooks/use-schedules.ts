@@ -0,0 +1,44 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { ClassSchedule } from '@/lib/schedules'
+import * as api from '@/lib/api-client'
+
+export function useSchedules() {
+  const [schedules, setSchedules] = useState<ClassSchedule[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    api.fetchSchedules()
+      .then(setSchedules)
+      .catch(err => {
+        console.error('Error loading schedules:', err)
+        setError('Failed to load class schedules.')
+      })
+  }, [])
+
+  const create = useCallback(async (input: Parameters<typeof api.createSchedule>[0]) => {
+    try {
+      const schedule = await api.createSchedule(input)
+      setSchedules(current => [...current, schedule].sort((a, b) => a.className.localeCompare(b.className)))
+      setError(null)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      return false
+    }
+  }, [])
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await api.deleteSchedule(id)
+      setSchedules(current => current.filter(s => s.id !== id))
+      setError(null)
+    } catch (err) {
+      console.error('Error removing a schedule:', err)
+      setError('Failed to remove that schedule.')
+    }
+  }, [])
+
+  return { schedules, error, create, remove }
+}
@@ -0,0 +1,292 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { AttendanceOverride, AttendanceSession, CheckIn, CheckInRecord, OverrideStatus, addCheckIn } from '@/lib/attendance'
+import * as api from '@/lib/api-client'
+import * as offline from '@/lib/offline-store'
+
+// Sessions open and close on their own from class schedules, so the list is
+// reloaded periodically to pick that up.
+const REFRESH_MS = 60_000
+// How often queued check-ins are retried while any are waiting.
+const SYNC_RETRY_MS = 15_000
+const SESSIONS_CACHE_KEY = 'sessions'
+
+// Shown for a queued check-in until the server has recorded it.
+const queuedRecord = (entry: Pick<offline.QueuedCheckIn, 'key' | 'sessionId' | 'checkIn'>): CheckInRecord => ({
+  id: `queued:${entry.key}`,
+  sessionId: entry.sessionId,
+  ...entry.checkIn,
+})
+
+// Server errors that will not change on retry, such as a check-in for a
+// session that closed before the person was seen.
+const isRefused = (err: unknown) =>
+  err instanceof api.ApiError && err.status >= 400 && err.status < 500 && err.status !== 401
+
+/**
+ * Loads sessions and the active session's check-ins. Pass `loadOverrides:
+ * false` where the caller cannot manage sessions, such as on a kiosk.
+ *
+ * Check-ins go through an offline queue: they are stored on the device
+ * first and sent when the server is reachable, so recognition keeps working
+ * through network outages.
+ */
+export function useSessions({ loadOverrides = true } = {}) {
+  const [sessions, setSessions] = useState<AttendanceSession[]>([])
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null)
+  const [checkIns, setCheckIns] = useState<CheckInRecord[]>([])
+  const [overrides, setOverrides] = useState<AttendanceOverride[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [pendingCount, setPendingCount] = useState(0)
+  // Queued check-ins the server refused, since this page was loaded.
+  const [refusedCount, setRefusedCount] = useState(0)
+  const [isOffline, setIsOffline] = useState(false)
+  const syncingRef = useRef(false)
+  const activeSessionIdRef = useRef<string | null>(null)
+  activeSessionIdRef.current = activeSessionId
+  // People already sent for the active session, so the detection loop does
+  // not post the same person on every tick.
+  const submittedRef = useRef<Set<string>>(new Set())
+
+  const activeSession = sessions.find(s => s.id === activeSessionId) ?? null
+
+  const showSessions = (loaded: AttendanceSession[]) => {
+    setSessions(loaded)
+    setActiveSessionId(current =>
+      current && loaded.some(s => s.id === current)
+        ? current
+        : loaded.find(s => s.status === 'open')?.id ?? null)
+  }
+
+  const refresh = useCallback(async () => {
+    try {
+      const loaded = await api.fetchSessions()
+      showSessions(loaded)
+      setError(null)
+      setIsOffline(false)
+      offline.writeCache(SESSIONS_CACHE_KEY, loaded).catch(err => console.error('Error caching sessions:', err))
+    } catch (err) {
+      console.error('Error loading sessions:', err)
+      const cached = await offline.readCache<AttendanceSession[]>(SESSIONS_CACHE_KEY).catch(() => undefined)
+      if (cached && !(err instanceof api.ApiError)) {
+        showSessions(cached)
+        setIsOffline(true)
+      } else {
+        setError('Failed to load attendance sessions.')
+      }
+    }
+  }, [])
+
+  /**
+   * Sends queued check-ins, oldest first. Stops at the first network or
+   * server failure and leaves the rest for the next attempt; check-ins the
+   * server refuses are dropped from the queue.
+   */
+  const sync = useCallback(async () => {
+    if (syncingRef.current) return
+    syncingRef.current = true
+    try {
+      for (const entry of await offline.queuedCheckIns()) {
+        try {
+          const record = await api.postCheckIn(entry.sessionId, entry.checkIn, {
+            snapshot: entry.snapshot,
+            queued: entry.heldOffline === true,
+          })
+          await offline.dequeueCheckIn(entry.key)
+          setIsOffline(false)
+          if (entry.sessionId === activeSessionIdRef.current) {
+            // The server keeps the earliest sighting, which may be this one
+            // or one recorded elsewhere.
+            setCheckIns(current => [
+              ...current.filter(c => c.id !== queuedRecord(entry).id && c.personId !== record.personId),
+              record,
+            ])
+          }
+        } catch (err) {
+          if (!isRefused(err)) {
+            const unreachable = !(err instanceof api.ApiError)
+            setIsOffline(unreachable)
+            if (unreachable) await offline.holdQueuedCheckIns()
+            break
+          }
+          console.error('Error syncing a queued check-in:', err)
+          await offline.dequeueCheckIn(entry.key)
+          setRefusedCount(count => count + 1)
+          if (entry.sessionId === activeSessionIdRef.current) {
+            setCheckIns(current => current.filter(c => c.id !== queuedRecord(entry).id))
+          }
+        }
+      }
+    } catch (err) {
+      console.error('Error reading the check-in queue:', err)
+    } finally {
+      syncingRef.current = false
+      setPendingCount((await offline.queuedCheckIns().catch(() => [])).length)
+    }
+  }, [])
+
+  // Retries on reconnecting and every little while until the queue drains.
+  useEffect(() => {
+    sync()
+    window.addEventListener('online', sync)
+    return () => window.removeEventListener('online', sync)
+  }, [sync])
+
+  useEffect(() => {
+    if (pendingCount === 0) return
+    const id = setInterval(sync, SYNC_RETRY_MS)
+    return () => clearInterval(id)
+  }, [pendingCount, sync])
+
+  useEffect(() => {
+    refresh()
+    const id = setInterval(refresh, REFRESH_MS)
+    return () => clearInterval(id)
+  }, [refresh])
+
+  useEffect(() => {
+    submittedRef.current = new Set()
+    setCheckIns([])
+    setOverrides([])
+    if (!activeSessionId) return
+
+    let cancelled = false
+    // Check-ins still waiting in the queue show alongside the recorded ones.
+    const queued = offline.queuedCheckIns()
+      .then(entries => entries.filter(e => e.sessionId === activeSessionId).map(queuedRecord))
+      .catch(() => [])
+    Promise.all([
+      api.fetchCheckIns(activeSessionId),
+      loadOverrides ? api.fetchOverrides(activeSessionId) : Promise.resolve([]),
+      queued,
+    ])
+      .then(([loadedCheckIns, loadedOverrides, queuedCheckIns]) => {
+        if (cancelled) return
+        const all = queuedCheckIns.reduce(addCheckIn, loadedCheckIns)
+        all.forEach(c => submittedRef.current.add(c.personId))
+        setCheckIns(all)
+        setOverrides(loadedOverrides)
+      })
+      .catch(async err => {
+        console.error('Error loading check-ins:', err)
+        if (err instanceof api.ApiError) {
+          setError('Failed to load check-ins for this session.')
+          return
+        }
+        // Offline: carry on with what this device has queued.
+        const queuedCheckIns = await queued
+        if (cancelled) return
+        queuedCheckIns.forEach(c => submittedRef.current.add(c.personId))
+        setCheckIns(queuedCheckIns)
+        setIsOffline(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [activeSessionId, loadOverrides])
+
+  const replaceSession = (session: AttendanceSession) => {
+    setSessions(current => current.map(s => (s.id === session.id ? session : s)))
+  }
+
+  // Runs a change, reporting whether it went through.
+  const run = useCallback(async (action: () => Promise<void>) => {
+    try {
+      await action()
+      setError(null)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      return false
+    }
+  }, [])
+
+  const create = useCallback((input: Parameters<typeof api.createSession>[0]) => run(async () => {
+    const session = await api.createSession(input)
+    setSessions(current => [session, ...current])
+    if (session.status === 'open') setActiveSessionId(session.id)
+  }), [run])
+
+  const open = useCallback((id: string) => run(async () => {
+    replaceSession(await api.openSession(id))
+    setActiveSessionId(id)
+  }), [run])
+
+  const close = useCallback((id: string) => run(async () => {
+    replaceSession(await api.closeSession(id))
+  }), [run])
+
+  /**
+   * Queues a check-in for the active session and tries to send it. Does
+   * nothing when no session is open or the person has already been recorded.
+   */
+  const recordCheckIn = useCallback(async (checkIn: CheckIn, snapshot?: string) => {
+    if (!activeSession || activeSession.status !== 'open') return
+    if (submittedRef.current.has(checkIn.personId)) return
+    submittedRef.current.add(checkIn.personId)
+
+    try {
+      await offline.enqueueCheckIn(activeSession.id, checkIn, snapshot)
+    } catch (err) {
+      // Let the next sighting retry.
+      submittedRef.current.delete(checkIn.personId)
+      console.error('Error queueing check-in:', err)
+      setError('Failed to record a check-in.')
+      return
+    }
+    const key = offline.queueKey(activeSession.id, checkIn.personId)
+    setCheckIns(current => addCheckIn(current, queuedRecord({ key, sessionId: activeSession.id, checkIn })))
+    setPendingCount(count => count + 1)
+    sync()
+  }, [activeSession, sync])
+
+  // Merges check-ins recorded elsewhere, such as from an uploaded photo.
+  const addRecords = useCallback((records: CheckInRecord[]) => {
+    records.forEach(record => submittedRef.current.add(record.personId))
+    setCheckIns(current => records.reduce(addCheckIn, current))
+  }, [])
+
+  /**
+   * Sets a person's status in the active session by hand, or hands it back
+   * to recognition with a null status.
+   */
+  const override = useCallback((personId: string, status: OverrideStatus | null, reason: string) => run(async () => {
+    if (!activeSessionId) return
+    const result = await api.setOverride(activeSessionId, { personId, status, reason })
+    setOverrides(current => [
+      ...current.filter(o => o.personId !== personId),
+      ...(result ? [result] : []),
+    ])
+  }), [activeSessionId, run])
+
+  // Moves a check-in matched to the wrong person to the right one.
+  const reassign = useCallback((checkInId: string, personId: string, reason: string) => run(async () => {
+    if (!activeSessionId) return
+    await api.reassignCheckIn(activeSessionId, checkInId, { personId, reason })
+    // Either record may have been dropped, so reload rather than patch.
+    const loaded = await api.fetchCheckIns(activeSessionId)
+    loaded.forEach(c => submittedRef.current.add(c.personId))
+    setCheckIns(loaded)
+  }), [activeSessionId, run])
+
+  return {
+    sessions,
+    activeSession,
+    setActiveSessionId,
+    checkIns,
+    overrides,
+    error,
+    pendingCount,
+    refusedCount,
+    isOffline,
+    refresh,
+    create,
+    open,
+    close,
+    recordCheckIn,
+    addRecords,
+    override,
+    reassign,
+  }
+}
@@ -0,0 +1,52 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { DeviceReport, STATUS_REPORT_MS } from '@/lib/monitoring'
+import * as api from '@/lib/api-client'
+
+const CLIENT_ID_STORAGE_KEY = 'jud-attendance:monitor-client'
+
+// Tells this tab apart from others signed in to the same account, in this
+// browser or elsewhere. Kept in sessionStorage, which each tab has to
+// itself, so a reload still reports as the same device.
+const clientId = () => {
+  let id = window.sessionStorage.getItem(CLIENT_ID_STORAGE_KEY)
+  if (!id) {
+    id = crypto.randomUUID()
+    window.sessionStorage.setItem(CLIENT_ID_STORAGE_KEY, id)
+  }
+  return id
+}
+
+/**
+ * Reports how this device's cameras are doing to the live monitor: straight
+ * away whenever the session, camera, models or error change, and every
+ * `STATUS_REPORT_MS` with the current frame rate in between. Nothing is sent
+ * while the browser is offline; the monitor shows the device as silent.
+ */
+export function useStatusReport({ sessionId, cameraRunning, modelsLoaded, error, fps }: Omit<DeviceReport, 'clientId'>) {
+  // The frame rate changes every few frames; it rides along with the next
+  // report rather than causing one.
+  const fpsRef = useRef(fps)
+
+  useEffect(() => {
+    fpsRef.current = fps
+  }, [fps])
+
+  useEffect(() => {
+    const report = () => {
+      if (!navigator.onLine) return
+      api.postStatus({
+        clientId: clientId(),
+        sessionId,
+        cameraRunning,
+        modelsLoaded,
+        error,
+        fps: Math.round(fpsRef.current * 10) / 10,
+      }).catch(err => console.error('Error reporting device status:', err))
+    }
+    report()
+    const timer = setInterval(report, STATUS_REPORT_MS)
+    return () => clearInterval(timer)
+  }, [sessionId, cameraRunning, modelsLoaded, error])
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { CheckInRecord } from '@/lib/attendance'
+import { Person } from '@/lib/roster'
+import { ClusterIdentification, UnknownCluster } from '@/lib/unknown-faces'
+import * as api from '@/lib/api-client'
+
+/**
+ * The unknown faces of one session, grouped by probable person, and the
+ * actions to settle them.
+ */
+export function useUnknownClusters(sessionId: string | null) {
+  const [clusters, setClusters] = useState<UnknownCluster[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const reload = useCallback(async () => {
+    if (!sessionId) {
+      setClusters([])
+      return
+    }
+    setIsLoading(true)
+    try {
+      setClusters(await api.fetchUnknownClusters(sessionId))
+      setError(null)
+    } catch (err) {
+      console.error('Error loading unknown faces:', err)
+      setError('Failed to load unknown faces.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  // Returns the backfilled check-in and the person, or null on failure.
+  const identify = useCallback(async (
+    clusterId: string,
+    identification: ClusterIdentification,
+  ): Promise<{ person: Person; checkIn: CheckInRecord } | null> => {
+    if (!sessionId) return null
+    try {
+      const result = await api.identifyUnknownCluster(sessionId, clusterId, identification)
+      setError(null)
+      await reload()
+      return result
+    } catch (err) {
+      console.error('Error identifying unknown faces:', err)
+      setError(err instanceof Error ? err.message : String(err))
+      return null
+    }
+  }, [sessionId, reload])
+
+  const discard = useCallback(async (clusterId: string, faceIds?: string[]) => {
+    if (!sessionId) return
+    try {
+      await api.discardUnknownFaces(sessionId, clusterId, faceIds)
+      setError(null)
+      await reload()
+    } catch (err) {
+      console.error('Error discarding unknown faces:', err)
+      setError('Failed to discard the faces.')
+    }
+  }, [sessionId, reload])
+
+  return { clusters, error, isLoading, reload, identify, discard }
+}
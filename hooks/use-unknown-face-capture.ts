@@ -0,0 +1,74 @@
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+import { AttendanceSession } from '@/lib/attendance'
+import { PipelineResult } from '@/lib/pipeline-protocol'
+import * as api from '@/lib/api-client'
+
+// A face has to stay unrecognized this long before it is kept, so faces
+// whose identity vote is still running are not.
+const CAPTURE_AFTER_MS = 4000
+// A few different views per track, spaced out, give the cluster more to go
+// on than one frame.
+const SAMPLES_PER_TRACK = 3
+const SAMPLE_INTERVAL_MS = 1500
+
+interface TrackCapture {
+  since: number
+  sent: number
+  lastSentAt: number
+  lastDescriptor: number[] | null
+}
+
+// Views are repeated between recognition passes; only fresh ones are sent.
+const sameDescriptor = (a: number[] | null, b: number[]) =>
+  a !== null && a.length === b.length && a.every((v, i) => v === b[i])
+
+/**
+ * Sends faces the recognizer could not match to the server, for review
+ * after the session. Only faces that pass the quality and liveness checks
+ * are sent, and only while the session is open. Returns the handler to call
+ * with each pipeline result.
+ */
+export function useUnknownFaceCapture(session: AttendanceSession | null) {
+  const sessionId = session?.status === 'open' ? session.id : null
+  // Unknown tracks by feed and track ID.
+  const tracksRef = useRef<Map<string, TrackCapture>>(new Map())
+
+  useEffect(() => {
+    tracksRef.current.clear()
+  }, [sessionId])
+
+  return useCallback((streamId: string, result: PipelineResult) => {
+    const now = result.timestamp
+    const tracks = tracksRef.current
+    const visible = new Set(result.faces.map(face => `${streamId}:${face.trackId}`))
+    tracks.forEach((_, key) => {
+      if (key.startsWith(`${streamId}:`) && !visible.has(key)) tracks.delete(key)
+    })
+    if (!sessionId) return
+
+    for (const { trackId, identity, descriptor, quality, liveness, image } of result.faces) {
+      const key = `${streamId}:${trackId}`
+      if (identity) {
+        tracks.delete(key)
+        continue
+      }
+      const track = tracks.get(key) ?? { since: now, sent: 0, lastSentAt: 0, lastDescriptor: null }
+      tracks.set(key, track)
+      if (now - track.since < CAPTURE_AFTER_MS || track.sent >= SAMPLES_PER_TRACK) continue
+      if (now - track.lastSentAt < SAMPLE_INTERVAL_MS) continue
+      if (!descriptor || !quality?.passed || !liveness?.passed || sameDescriptor(track.lastDescriptor, descriptor)) continue
+
+      track.sent++
+      track.lastSentAt = now
+      track.lastDescriptor = descriptor
+      api.postUnknownFace(sessionId, {
+        descriptor,
+        quality: quality.score,
+        seenAt: new Date(now).toISOString(),
+        snapshot: image,
+      }).catch(err => console.error('Error sending an unknown face:', err))
+    }
+  }, [sessionId])
+}
@@ -0,0 +1,31 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+/**
+ * Lists the video inputs the browser knows about. Labels stay empty until the
+ * page has camera permission, so call `refresh` once a stream has started.
+ */
+export function useVideoDevices() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices()
+      setDevices(all.filter(device => device.kind === 'videoinput'))
+    } catch (err) {
+      console.error('Error listing cameras:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    navigator.mediaDevices?.addEventListener('devicechange', refresh)
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh)
+    }
+  }, [refresh])
+
+  return { devices, refresh }
+}
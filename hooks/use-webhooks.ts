@@ -0,0 +1,84 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Webhook, WebhookDelivery } from '@/lib/webhooks'
+import * as api from '@/lib/api-client'
+
+/**
+ * Outbound webhooks and their delivery logs, for admins. Logs are loaded
+ * per webhook when asked for.
+ */
+export function useWebhooks() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [deliveries, setDeliveries] = useState<Record<string, WebhookDelivery[]>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    api.fetchWebhooks()
+      .then(setWebhooks)
+      .catch(err => {
+        console.error('Error loading webhooks:', err)
+        setError('Failed to load webhooks.')
+      })
+  }, [])
+
+  const loadDeliveries = useCallback(async (id: string) => {
+    try {
+      const loaded = await api.fetchWebhookDeliveries(id)
+      setDeliveries(current => ({ ...current, [id]: loaded }))
+      setError(null)
+    } catch (err) {
+      console.error('Error loading webhook deliveries:', err)
+      setError('Failed to load the delivery log.')
+    }
+  }, [])
+
+  // Returns the new webhook's signing secret, which cannot be fetched again.
+  const create = useCallback(async (input: Parameters<typeof api.createWebhook>[0]) => {
+    try {
+      const { webhook, secret } = await api.createWebhook(input)
+      setWebhooks(current => [...current, webhook])
+      setError(null)
+      return secret
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      return null
+    }
+  }, [])
+
+  const update = useCallback(async (id: string, changes: Parameters<typeof api.updateWebhook>[1]) => {
+    try {
+      const webhook = await api.updateWebhook(id, changes)
+      setWebhooks(current => current.map(w => (w.id === id ? webhook : w)))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }, [])
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await api.deleteWebhook(id)
+      setWebhooks(current => current.filter(w => w.id !== id))
+      setError(null)
+    } catch (err) {
+      console.error('Error deleting a webhook:', err)
+      setError('Failed to delete that webhook.')
+    }
+  }, [])
+
+  // Returns the test delivery, which also heads the webhook's log.
+  const sendTest = useCallback(async (id: string) => {
+    try {
+      const delivery = await api.sendTestWebhook(id)
+      setDeliveries(current => ({ ...current, [id]: [delivery, ...(current[id] ?? [])] }))
+      setError(null)
+      return delivery
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      return null
+    }
+  }, [])
+
+  return { webhooks, deliveries, error, loadDeliveries, create, update, remove, sendTest }
+}
@@ -0,0 +1,55 @@
+import { AttendanceStatus } from '@/lib/attendance'
+
+// People missing at least this share of their sessions are listed as
+// chronic absentees.
+export const CHRONIC_ABSENCE_RATE = 0.1
+
+export interface HistoryEntry {
+  sessionId: string
+  className: string
+  date: string
+  startTime: string
+  status: AttendanceStatus
+  checkInTime: string | null
+}
+
+export interface StatusCounts {
+  sessions: number
+  onTime: number
+  late: number
+  tooLate: number
+  absent: number
+  excused: number
+  // Share of sessions attended at all, late or not, from 0 to 1. Excused
+  // absences are left out.
+  rate: number
+}
+
+export interface PersonSummary extends StatusCounts {
+  personId: string
+  name: string
+  // Consecutive late arrivals up to the latest session, and the longest run
+  // in the range. An absence ends a run.
+  lateStreak: number
+  longestLateStreak: number
+  // Oldest session first.
+  history: HistoryEntry[]
+}
+
+export interface GroupSummary extends StatusCounts {
+  // Class name, or weekday from 0 (Sunday) to 6.
+  key: string
+  label: string
+}
+
+export interface AttendanceAnalytics {
+  from: string
+  to: string
+  sessionCount: number
+  overall: StatusCounts
+  people: PersonSummary[]
+  classes: GroupSummary[]
+  weekdays: GroupSummary[]
+  // Most absences first.
+  chronicAbsentees: PersonSummary[]
+}
@@ -0,0 +1,374 @@
+import { AttendanceAnalytics } from '@/lib/analytics'
+import { AttendanceOverride, AttendanceSession, CheckIn, CheckInRecord, OverrideStatus } from '@/lib/attendance'
+import { AuditEntry } from '@/lib/audit'
+import { DEVICE_TOKEN_STORAGE_KEY, KioskDevice, Principal, User, UserRole } from '@/lib/auth'
+import { DeviceReport } from '@/lib/monitoring'
+import { Person } from '@/lib/roster'
+import { RosterImportReport } from '@/lib/roster-import'
+import { ClassSchedule } from '@/lib/schedules'
+import { ClusterIdentification, UnknownCluster, UnknownFace } from '@/lib/unknown-faces'
+import { Webhook, WebhookDelivery, WebhookEventType } from '@/lib/webhooks'
+
+// The server answered with an error. Network failures reject with a
+// TypeError from fetch instead, so callers can tell the two apart.
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+// Kiosk devices authenticate with a stored token instead of a sign-in.
+const authHeaders = (): Record<string, string> => {
+  const token = typeof window === 'undefined' ? null : localStorage.getItem(DEVICE_TOKEN_STORAGE_KEY)
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+// An expired sign-in sends people back to the login page. The kiosk asks
+// for a device token itself instead.
+const handleUnauthorized = (response: Response) => {
+  const path = window.location.pathname
+  if (response.status === 401 && path !== '/kiosk' && path !== '/login') {
+    window.location.assign(`/login?${new URLSearchParams({ next: path })}`)
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...authHeaders(), ...init?.headers },
+  })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    handleUnauthorized(response)
+    throw new ApiError(response.status, body.error ?? `Request to ${url} failed with status ${response.status}`)
+  }
+  return body as T
+}
+
+export async function fetchCurrentPrincipal(): Promise<Principal> {
+  const { principal } = await request<{ principal: Principal }>('/api/auth/me')
+  return principal
+}
+
+export async function signIn(username: string, password: string): Promise<Principal> {
+  const { principal } = await request<{ principal: Principal }>('/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  })
+  return principal
+}
+
+// Checks a staff sign-in without switching to it, for unlocking a kiosk.
+export async function verifyStaff(username: string, password: string): Promise<{ name: string }> {
+  return request<{ name: string }>('/api/auth/verify', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  })
+}
+
+export async function signOut(): Promise<void> {
+  await request('/api/auth/logout', { method: 'POST' })
+}
+
+export async function fetchSetupNeeded(): Promise<boolean> {
+  const { needed } = await request<{ needed: boolean }>('/api/auth/setup')
+  return needed
+}
+
+export async function createFirstAdmin(input: { username: string; name: string; password: string }): Promise<Principal> {
+  const { principal } = await request<{ principal: Principal }>('/api/auth/setup', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  })
+  return principal
+}
+
+export async function fetchUsers(): Promise<User[]> {
+  const { users } = await request<{ users: User[] }>('/api/users')
+  return users
+}
+
+export async function createUser(input: { username: string; name: string; role: UserRole; password: string }): Promise<User> {
+  const { user } = await request<{ user: User }>('/api/users', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  })
+  return user
+}
+
+export async function deleteUser(id: string): Promise<void> {
+  await request(`/api/users/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+export async function fetchDevices(): Promise<KioskDevice[]> {
+  const { devices } = await request<{ devices: KioskDevice[] }>('/api/devices')
+  return devices
+}
+
+// The token is only available from this call.
+export async function createDevice(name: string): Promise<{ device: KioskDevice; token: string }> {
+  return request<{ device: KioskDevice; token: string }>('/api/devices', {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  })
+}
+
+export async function deleteDevice(id: string): Promise<void> {
+  await request(`/api/devices/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+export async function fetchWebhooks(): Promise<Webhook[]> {
+  const { webhooks } = await request<{ webhooks: Webhook[] }>('/api/webhooks')
+  return webhooks
+}
+
+// The signing secret is only available from this call.
+export async function createWebhook(input: {
+  url: string
+  events: WebhookEventType[]
+  description: string
+}): Promise<{ webhook: Webhook; secret: string }> {
+  return request<{ webhook: Webhook; secret: string }>('/api/webhooks', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  })
+}
+
+export async function updateWebhook(
+  id: string,
+  changes: Partial<Pick<Webhook, 'url' | 'events' | 'description' | 'active'>>,
+): Promise<Webhook> {
+  const { webhook } = await request<{ webhook: Webhook }>(`/api/webhooks/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  })
+  return webhook
+}
+
+export async function deleteWebhook(id: string): Promise<void> {
+  await request(`/api/webhooks/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+export async function fetchWebhookDeliveries(id: string): Promise<WebhookDelivery[]> {
+  const { deliveries } = await request<{ deliveries: WebhookDelivery[] }>(`/api/webhooks/${encodeURIComponent(id)}/deliveries`)
+  return deliveries
+}
+
+export async function sendTestWebhook(id: string): Promise<WebhookDelivery> {
+  const { delivery } = await request<{ delivery: WebhookDelivery }>(`/api/webhooks/${encodeURIComponent(id)}/test`, {
+    method: 'POST',
+  })
+  return delivery
+}
+
+export async function fetchSessions(): Promise<AttendanceSession[]> {
+  const { sessions } = await request<{ sessions: AttendanceSession[] }>('/api/sessions')
+  return sessions
+}
+
+export async function createSession(input: {
+  className: string
+  date: string
+  startTime: string
+  endTime: string
+  teacherId?: string
+  open?: boolean
+}): Promise<AttendanceSession> {
+  const { session } = await request<{ session: AttendanceSession }>('/api/sessions', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  })
+  return session
+}
+
+export async function openSession(id: string): Promise<AttendanceSession> {
+  const { session } = await request<{ session: AttendanceSession }>(`/api/sessions/${id}/open`, { method: 'POST' })
+  return session
+}
+
+export async function closeSession(id: string): Promise<AttendanceSession> {
+  const { session } = await request<{ session: AttendanceSession }>(`/api/sessions/${id}/close`, { method: 'POST' })
+  return session
+}
+
+export async function fetchCheckIns(sessionId: string): Promise<CheckInRecord[]> {
+  const { checkIns } = await request<{ checkIns: CheckInRecord[] }>(`/api/sessions/${sessionId}/check-ins`)
+  return checkIns
+}
+
+// Check-ins are only sent from the offline queue. `queued` marks one held
+// there while the server was unreachable, which the server may accept after
+// its session closed.
+export async function postCheckIn(
+  sessionId: string,
+  checkIn: CheckIn,
+  { snapshot, queued = false }: { snapshot?: string; queued?: boolean } = {},
+): Promise<CheckInRecord> {
+  const { checkIn: record } = await request<{ checkIn: CheckInRecord }>(`/api/sessions/${sessionId}/check-ins`, {
+    method: 'POST',
+    body: JSON.stringify({ ...checkIn, snapshot, queued }),
+  })
+  return record
+}
+
+export async function reassignCheckIn(
+  sessionId: string,
+  checkInId: string,
+  change: { personId: string; reason: string },
+): Promise<CheckInRecord> {
+  const { checkIn } = await request<{ checkIn: CheckInRecord }>(`/api/sessions/${sessionId}/check-ins/${checkInId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(change),
+  })
+  return checkIn
+}
+
+export async function fetchOverrides(sessionId: string): Promise<AttendanceOverride[]> {
+  const { overrides } = await request<{ overrides: AttendanceOverride[] }>(`/api/sessions/${sessionId}/overrides`)
+  return overrides
+}
+
+export async function setOverride(
+  sessionId: string,
+  change: { personId: string; status: OverrideStatus | null; reason: string },
+): Promise<AttendanceOverride | null> {
+  const { override } = await request<{ override: AttendanceOverride | null }>(`/api/sessions/${sessionId}/overrides`, {
+    method: 'PUT',
+    body: JSON.stringify(change),
+  })
+  return override
+}
+
+export async function fetchAudit(query: { sessionId?: string; personId?: string }): Promise<AuditEntry[]> {
+  const params = new URLSearchParams(Object.entries(query).filter(([, value]) => value) as [string, string][])
+  const { entries } = await request<{ entries: AuditEntry[] }>(`/api/audit?${params}`)
+  return entries
+}
+
+export async function postUnknownFace(
+  sessionId: string,
+  face: { descriptor: number[]; quality: number; seenAt: string; snapshot?: string },
+): Promise<UnknownFace | null> {
+  const { face: kept } = await request<{ face: UnknownFace | null }>(`/api/sessions/${sessionId}/unknown-faces`, {
+    method: 'POST',
+    body: JSON.stringify(face),
+  })
+  return kept
+}
+
+export async function fetchUnknownClusters(sessionId: string): Promise<UnknownCluster[]> {
+  const { clusters } = await request<{ clusters: UnknownCluster[] }>(`/api/sessions/${sessionId}/unknown-clusters`)
+  return clusters
+}
+
+export async function identifyUnknownCluster(
+  sessionId: string,
+  clusterId: string,
+  identification: ClusterIdentification,
+): Promise<{ person: Person; checkIn: CheckInRecord }> {
+  return request<{ person: Person; checkIn: CheckInRecord }>(`/api/sessions/${sessionId}/unknown-clusters/${clusterId}`, {
+    method: 'POST',
+    body: JSON.stringify(identification),
+  })
+}
+
+export async function discardUnknownFaces(sessionId: string, clusterId: string, faceIds?: string[]): Promise<void> {
+  const params = new URLSearchParams((faceIds ?? []).map(id => ['faceId', id]))
+  await request(`/api/sessions/${sessionId}/unknown-clusters/${clusterId}?${params}`, { method: 'DELETE' })
+}
+
+export async function fetchSchedules(): Promise<ClassSchedule[]> {
+  const { schedules } = await request<{ schedules: ClassSchedule[] }>('/api/schedules')
+  return schedules
+}
+
+export async function createSchedule(input: Omit<ClassSchedule, 'id' | 'createdAt'>): Promise<ClassSchedule> {
+  const { schedule } = await request<{ schedule: ClassSchedule }>('/api/schedules', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  })
+  return schedule
+}
+
+export async function deleteSchedule(id: string): Promise<void> {
+  await request(`/api/schedules/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+export async function fetchAnalytics(from: string, to: string): Promise<AttendanceAnalytics> {
+  const params = new URLSearchParams({ from, to })
+  const { analytics } = await request<{ analytics: AttendanceAnalytics }>(`/api/analytics?${params}`)
+  return analytics
+}
+
+export async function fetchPeople(): Promise<Person[]> {
+  const { people } = await request<{ people: Person[] }>('/api/people')
+  return people
+}
+
+export async function savePerson(person: Person): Promise<Person> {
+  const { person: saved } = await request<{ person: Person }>('/api/people', {
+    method: 'POST',
+    body: JSON.stringify(person),
+  })
+  return saved
+}
+
+export async function deletePerson(id: string): Promise<void> {
+  await request(`/api/people/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+export async function importRoster(input: {
+  csv: File
+  photos: File[]
+  consentGivenBy: string
+  consentNote: string
+}): Promise<RosterImportReport> {
+  const form = new FormData()
+  form.set('csv', input.csv)
+  input.photos.forEach(photo => form.append('photos', photo))
+  form.set('consentGivenBy', input.consentGivenBy)
+  form.set('consentNote', input.consentNote)
+  const response = await fetch('/api/people/import', { method: 'POST', body: form, headers: authHeaders() })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    handleUnauthorized(response)
+    throw new ApiError(response.status, body.error ?? `Import failed with status ${response.status}`)
+  }
+  return body.report as RosterImportReport
+}
+
+export interface PhotoRecognition {
+  frames: number
+  faces: {
+    frame: number
+    box: { x: number; y: number; width: number; height: number }
+    probability: number
+    quality: number | null
+    personId: string | null
+    name: string | null
+    similarity: number | null
+  }[]
+  recognized: { personId: string; name: string; confidence: number; frames: number }[]
+  checkIns: CheckInRecord[]
+  // Unmatched faces kept for review.
+  unknownFaces: number
+}
+
+export async function recognizePhoto(file: File, options: { sessionId?: string; record?: boolean } = {}): Promise<PhotoRecognition> {
+  const form = new FormData()
+  form.set('file', file)
+  if (options.sessionId) form.set('sessionId', options.sessionId)
+  if (options.record) form.set('record', 'true')
+  const response = await fetch('/api/recognize', { method: 'POST', body: form, headers: authHeaders() })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    handleUnauthorized(response)
+    throw new ApiError(response.status, body.error ?? `Recognition failed with status ${response.status}`)
+  }
+  return body as PhotoRecognition
+}
+
+export async function postStatus(report: DeviceReport): Promise<void> {
+  await request('/api/monitor/status', { method: 'POST', body: JSON.stringify(report) })
+}
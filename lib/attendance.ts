@@ -0,0 +1,110 @@
+export interface CheckIn {
+  personId: string
+  name: string
+  timestamp: string
+  confidence: number
+}
+
+export interface CheckInRecord extends CheckIn {
+  id: string
+  sessionId: string
+  // Set by the server when the check-in is recorded. Missing on records from
+  // before schedules existed.
+  status?: CheckInStatus
+}
+
+// A scheduled session that ended without ever opening is missed: nobody
+// took attendance, so no one is marked absent.
+export type SessionStatus = 'scheduled' | 'open' | 'closed' | 'missed'
+
+export interface AttendanceSession {
+  id: string
+  className: string
+  // Local calendar date and wall-clock times, e.g. "2024-09-02" and "08:00".
+  date: string
+  startTime: string
+  endTime: string
+  status: SessionStatus
+  createdAt: string
+  openedAt?: string
+  closedAt?: string
+  // Set on sessions created from a class schedule.
+  scheduleId?: string
+  // Teacher in charge, who may manage the session. Admins manage every
+  // session.
+  teacherId?: string
+  // Attendance rules, copied from the schedule so later edits to it do not
+  // rewrite past sessions. Defaults apply when missing.
+  graceMinutes?: number
+  lateCutoffMinutes?: number | null
+  // People expected to attend; everyone on the roster when missing.
+  expectedIds?: string[]
+  // Expected people not checked in when the session closed.
+  absentIds?: string[]
+}
+
+export type CheckInStatus = 'on-time' | 'late' | 'too-late'
+export type AttendanceStatus = CheckInStatus | 'absent' | 'excused'
+
+// Statuses staff can set by hand. Marking someone present records them as on
+// time.
+export const OVERRIDE_STATUSES = ['on-time', 'late', 'absent', 'excused'] as const
+export type OverrideStatus = typeof OVERRIDE_STATUSES[number]
+
+// A status set by staff for one person in one session. It takes precedence
+// over whatever recognition recorded.
+export interface AttendanceOverride {
+  sessionId: string
+  personId: string
+  status: OverrideStatus
+  reason: string
+  by: string
+  updatedAt: string
+}
+
+// Minutes after a session's start time before an arrival counts as late.
+export const LATE_AFTER_MINUTES = 5
+
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+export const TIME_PATTERN = /^\d{2}:\d{2}$/
+
+// A person is only checked in once per session: the first sighting wins.
+export function addCheckIn<T extends CheckIn>(checkIns: T[], checkIn: T): T[] {
+  return checkIns.some(c => c.personId === checkIn.personId) ? checkIns : [...checkIns, checkIn]
+}
+
+/**
+ * Converts a session's local date and wall-clock time into a Date.
+ */
+export function sessionTime(session: Pick<AttendanceSession, 'date'>, time: string): Date {
+  const [year, month, day] = session.date.split('-').map(Number)
+  const [hours, minutes] = time.split(':').map(Number)
+  return new Date(year, month - 1, day, hours, minutes)
+}
+
+/**
+ * Classifies an arrival against the session's rules: on time within the
+ * grace period, late up to the cut-off, too late after it.
+ */
+export function checkInStatus(session: AttendanceSession, timestamp: string): CheckInStatus {
+  const start = sessionTime(session, session.startTime).getTime()
+  const arrived = new Date(timestamp).getTime()
+  const lateAfter = start + (session.graceMinutes ?? LATE_AFTER_MINUTES) * 60_000
+  if (arrived <= lateAfter) return 'on-time'
+  const cutoff = session.lateCutoffMinutes
+  return cutoff !== undefined && cutoff !== null && arrived > start + cutoff * 60_000 ? 'too-late' : 'late'
+}
+
+export function attendanceStatus(
+  session: AttendanceSession,
+  checkIn: (CheckIn & { status?: CheckInStatus }) | undefined,
+  override?: Pick<AttendanceOverride, 'status'>,
+): AttendanceStatus {
+  if (override) return override.status
+  if (!checkIn) return 'absent'
+  return checkIn.status ?? checkInStatus(session, checkIn.timestamp)
+}
+
+export function isExpected(session: AttendanceSession, personId: string): boolean {
+  return !session.expectedIds || session.expectedIds.includes(personId)
+}
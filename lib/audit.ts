@@ -0,0 +1,26 @@
+export type AuditAction = 'check-in' | 'absent' | 'override' | 'clear-override' | 'reassign'
+
+// One change to attendance, automatic or by hand. The log is only ever
+// appended to.
+export interface AuditEntry {
+  id: string
+  timestamp: string
+  // Staff member for manual changes; the recognizer or the system otherwise.
+  actor: string
+  automatic: boolean
+  action: AuditAction
+  sessionId: string
+  personId: string
+  // Statuses for status changes, person IDs for reassignments.
+  oldValue: string | null
+  newValue: string | null
+  reason: string | null
+  // Whether a cropped face image was kept for this change. Listings report
+  // false once it has been purged.
+  hasSnapshot: boolean
+}
+
+// Actors recorded for automatic changes.
+export const LIVE_RECOGNITION_ACTOR = 'live recognition'
+export const PHOTO_RECOGNITION_ACTOR = 'photo recognition'
+export const SYSTEM_ACTOR = 'system'
@@ -0,0 +1,36 @@
+// Admins manage the roster and settings, teachers their own classes, and
+// kiosk devices only check people in.
+export type Role = 'admin' | 'teacher' | 'kiosk'
+export type UserRole = Exclude<Role, 'kiosk'>
+
+export const USER_ROLES: UserRole[] = ['admin', 'teacher']
+
+// Who a request comes from: a signed-in user or a registered kiosk device.
+export interface Principal {
+  // User or device ID.
+  sub: string
+  role: Role
+  name: string
+  // Expiry in milliseconds since the epoch. Device tokens do not expire;
+  // they are revoked by deleting the device.
+  exp?: number
+}
+
+export interface User {
+  id: string
+  username: string
+  name: string
+  role: UserRole
+  createdAt: string
+}
+
+export interface KioskDevice {
+  id: string
+  name: string
+  createdAt: string
+}
+
+export const SESSION_COOKIE = 'attendance_session'
+
+// Where a kiosk keeps its device token.
+export const DEVICE_TOKEN_STORAGE_KEY = 'jud-attendance:device-token'
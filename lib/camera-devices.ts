@@ -0,0 +1,49 @@
+export type FacingMode = 'any' | 'user' | 'environment'
+
+export const RESOLUTIONS = {
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+} as const
+
+export type ResolutionKey = 'auto' | keyof typeof RESOLUTIONS
+
+// Each feed runs its own detection pass, so more than two noticeably slows
+// every feed down on a typical laptop.
+export const MAX_CAMERAS = 2
+
+export interface CameraSettings {
+  // Stable ID of the feed, used as the pipeline stream ID.
+  id: string
+  // Empty means whichever camera the browser picks.
+  deviceId: string
+  resolution: ResolutionKey
+  facingMode: FacingMode
+}
+
+export const defaultCameraSettings = (id: string, deviceId = ''): CameraSettings => ({
+  id,
+  deviceId,
+  resolution: 'auto',
+  facingMode: 'any',
+})
+
+/**
+ * Builds getUserMedia video constraints for a feed. A chosen device wins over
+ * the facing mode, and resolutions are requested as ideals so a camera that
+ * cannot meet them still opens at its closest size.
+ */
+export function videoConstraints(settings: CameraSettings): MediaTrackConstraints | true {
+  const constraints: MediaTrackConstraints = {}
+  if (settings.deviceId) {
+    constraints.deviceId = { exact: settings.deviceId }
+  } else if (settings.facingMode !== 'any') {
+    constraints.facingMode = { ideal: settings.facingMode }
+  }
+  if (settings.resolution !== 'auto') {
+    const { width, height } = RESOLUTIONS[settings.resolution]
+    constraints.width = { ideal: width }
+    constraints.height = { ideal: height }
+  }
+  return Object.keys(constraints).length > 0 ? constraints : true
+}
@@ -0,0 +1,151 @@
+// Accuracy of template matching over a labeled set of face images, as
+// produced by `npm run evaluate`.
+
+// One probe image scored against every enrolled template.
+export interface ProbeScores {
+  person: string
+  file: string
+  // Similarity to each enrolled person's template, by person.
+  scores: Record<string, number>
+}
+
+export interface ThresholdResult {
+  threshold: number
+  // Share of comparisons against someone else's template that clear the
+  // threshold.
+  falseAcceptRate: number
+  // Share of comparisons against the person's own template that fall short.
+  falseRejectRate: number
+  // Share of probes whose best match is someone else and clears the
+  // threshold, as matching against a whole roster would check them in.
+  misidentificationRate: number
+}
+
+export interface OperatingPoint extends ThresholdResult {
+  reason: string
+}
+
+export interface Confusion {
+  person: string
+  mistakenFor: string
+  similarity: number
+  // Probe image with the highest similarity for this pair.
+  file: string
+}
+
+export interface SkippedImage {
+  person: string
+  file: string
+  reason: string
+}
+
+export interface EvaluationReport {
+  generatedAt: string
+  dataset: string
+  settings: {
+    enrollImages: number
+    minQuality: number
+    maxFalseAcceptRate: number
+  }
+  people: number
+  images: number
+  probes: number
+  genuineComparisons: number
+  impostorComparisons: number
+  skipped: SkippedImage[]
+  sweep: ThresholdResult[]
+  equalErrorRate: { threshold: number; rate: number } | null
+  recommended: OperatingPoint | null
+  confusions: Confusion[]
+}
+
+/**
+ * Thresholds from `from` to `to` inclusive, rounded so printed values stay
+ * tidy.
+ */
+export function thresholdRange(from: number, to: number, step: number): number[] {
+  const thresholds: number[] = []
+  for (let i = 0; from + i * step <= to + 1e-9; i++) {
+    thresholds.push(Number((from + i * step).toFixed(4)))
+  }
+  return thresholds
+}
+
+/**
+ * False accept, false reject and misidentification rates at each threshold.
+ */
+export function sweepThresholds(probes: ProbeScores[], thresholds: number[]): ThresholdResult[] {
+  const genuine: number[] = []
+  const impostor: number[] = []
+  const best: { own: boolean; similarity: number }[] = []
+  for (const probe of probes) {
+    let top: { own: boolean; similarity: number } | null = null
+    for (const [person, similarity] of Object.entries(probe.scores)) {
+      const own = person === probe.person
+      if (own) genuine.push(similarity)
+      else impostor.push(similarity)
+      if (!top || similarity > top.similarity) top = { own, similarity }
+    }
+    if (top) best.push(top)
+  }
+
+  const rate = (count: number, total: number) => (total > 0 ? count / total : 0)
+  return thresholds.map(threshold => ({
+    threshold,
+    falseAcceptRate: rate(impostor.filter(s => s >= threshold).length, impostor.length),
+    falseRejectRate: rate(genuine.filter(s => s < threshold).length, genuine.length),
+    misidentificationRate: rate(best.filter(b => !b.own && b.similarity >= threshold).length, best.length),
+  }))
+}
+
+// Where false accepts and false rejects are closest to equal.
+export function equalErrorRate(sweep: ThresholdResult[]): { threshold: number; rate: number } | null {
+  let closest: ThresholdResult | null = null
+  for (const result of sweep) {
+    const gap = Math.abs(result.falseAcceptRate - result.falseRejectRate)
+    if (!closest || gap < Math.abs(closest.falseAcceptRate - closest.falseRejectRate)) closest = result
+  }
+  return closest && {
+    threshold: closest.threshold,
+    rate: (closest.falseAcceptRate + closest.falseRejectRate) / 2,
+  }
+}
+
+/**
+ * The lowest threshold keeping false accepts within `maxFalseAcceptRate`.
+ * Checking in the wrong person is worse than asking someone to look at the
+ * camera again, so false rejects are only minimized within that limit.
+ */
+export function recommendThreshold(sweep: ThresholdResult[], maxFalseAcceptRate: number): OperatingPoint | null {
+  const ordered = [...sweep].sort((a, b) => a.threshold - b.threshold)
+  const within = ordered.find(result => result.falseAcceptRate <= maxFalseAcceptRate)
+  if (within) {
+    return { ...within, reason: `Lowest threshold with a false accept rate of at most ${maxFalseAcceptRate}` }
+  }
+  const strictest = ordered[ordered.length - 1]
+  return strictest && {
+    ...strictest,
+    reason: `No threshold in the sweep keeps false accepts within ${maxFalseAcceptRate}; this is the strictest tried`,
+  }
+}
+
+/**
+ * The most similar pairs of different people, one entry per pair, highest
+ * similarity first.
+ */
+export function worstConfusions(probes: ProbeScores[], limit: number): Confusion[] {
+  const pairs = new Map<string, Confusion>()
+  for (const probe of probes) {
+    for (const [person, similarity] of Object.entries(probe.scores)) {
+      if (person === probe.person) continue
+      const key = `${probe.person}\u0000${person}`
+      const current = pairs.get(key)
+      if (!current || similarity > current.similarity) {
+        pairs.set(key, { person: probe.person, mistakenFor: person, similarity, file: probe.file })
+      }
+    }
+  }
+  return Array.from(pairs.values())
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+}
@@ -0,0 +1,96 @@
+import type { FaceDetection } from '@/lib/pipeline-protocol'
+
+// Shared by the worker, the server and the overlay, so it must stay free of
+// TensorFlow imports.
+
+// Side of the square, upright crop every face is resampled into before
+// FaceMesh runs on it.
+export const ALIGNED_SIZE = 256
+
+// Crop side and eye position, in inter-ocular distances. Four leaves enough
+// margin around the whole head for FaceMesh's own detector to find it.
+const CROP_EYE_DISTANCES = 4
+// How far below the eyes the crop is centered, as a fraction of its side,
+// so the chin fits as well as the brow.
+const CENTER_OFFSET = 0.12
+
+// BlazeFace landmark order: right eye, left eye, nose, mouth, right ear,
+// left ear. Right and left are the subject's, so in an unmirrored frame the
+// right eye has the smaller x.
+const RIGHT_EYE = 0
+const LEFT_EYE = 1
+
+/**
+ * Square region of a frame that one face is cropped from. It is rotated by
+ * `angle` radians so the eyes come out level in the crop.
+ */
+export interface FaceAlignment {
+  center: [number, number]
+  // Side of the region in frame pixels.
+  size: number
+  angle: number
+}
+
+/**
+ * Places a canonical crop from the BlazeFace eye landmarks: rolled with the
+ * eye line, scaled by the eye distance and centered just below the eyes.
+ * Falls back on an upright crop around the box when the eyes are missing.
+ */
+export function alignFace(face: FaceDetection): FaceAlignment {
+  const right = face.landmarks[RIGHT_EYE]
+  const left = face.landmarks[LEFT_EYE]
+  const dx = left ? left[0] - right[0] : 0
+  const dy = left ? left[1] - right[1] : 0
+  const eyeDistance = Math.hypot(dx, dy)
+
+  if (!right || !left || eyeDistance === 0) {
+    const width = face.bottomRight[0] - face.topLeft[0]
+    const height = face.bottomRight[1] - face.topLeft[1]
+    return {
+      center: [face.topLeft[0] + width / 2, face.topLeft[1] + height / 2],
+      size: 2 * Math.max(width, height),
+      angle: 0,
+    }
+  }
+
+  const angle = Math.atan2(dy, dx)
+  const size = eyeDistance * CROP_EYE_DISTANCES
+  const offset = size * CENTER_OFFSET
+  // Down in the face's own frame is the eye line rotated by a quarter turn.
+  return {
+    center: [
+      (right[0] + left[0]) / 2 - Math.sin(angle) * offset,
+      (right[1] + left[1]) / 2 + Math.cos(angle) * offset,
+    ],
+    size,
+    angle,
+  }
+}
+
+/**
+ * Maps a point in an `outputSize` crop back to frame pixels. Returned as the
+ * affine coefficients [a, b, c, d, e, f] of x' = a x + b y + c and
+ * y' = d x + e y + f, which is also the form image warps expect.
+ */
+export function cropToFrame(alignment: FaceAlignment, outputSize = ALIGNED_SIZE): [number, number, number, number, number, number] {
+  const scale = alignment.size / outputSize
+  const cos = Math.cos(alignment.angle) * scale
+  const sin = Math.sin(alignment.angle) * scale
+  const half = outputSize / 2
+  return [
+    cos, -sin, alignment.center[0] - cos * half + sin * half,
+    sin, cos, alignment.center[1] - sin * half - cos * half,
+  ]
+}
+
+/**
+ * Corners of the crop in frame pixels, clockwise from the crop's top left,
+ * for drawing the region on the overlay.
+ */
+export function alignmentCorners(alignment: FaceAlignment): [number, number][] {
+  const [a, b, c, d, e, f] = cropToFrame(alignment, 1)
+  return ([[0, 0], [1, 0], [1, 1], [0, 1]] as const).map(([x, y]): [number, number] => [
+    a * x + b * y + c,
+    d * x + e * y + f,
+  ])
+}
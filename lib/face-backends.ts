@@ -0,0 +1,163 @@
+import type { Face, Keypoint } from '@tensorflow-models/face-landmarks-detection'
+import { PixelData, extractDescriptor } from '@/lib/face-template'
+import { AUTO_BACKENDS, BackendId, BackendPreference, FaceDetection } from '@/lib/pipeline-protocol'
+
+// Finds faces in a whole frame.
+export interface FaceDetector {
+  detect(frame: ImageBitmap): Promise<FaceDetection[]>
+}
+
+// Runs FaceMesh on one aligned face crop.
+export interface FaceLandmarker {
+  estimate(crop: ImageData): Promise<Face[]>
+}
+
+// Turns a crop and its mesh into a descriptor comparable with the stored
+// templates. Swapping it means re-enrolling everyone.
+export interface FaceEmbedder {
+  embed(crop: PixelData, keypoints: Keypoint[]): number[] | null
+}
+
+export interface FaceBackend {
+  id: BackendId
+  detector: FaceDetector
+  landmarker: FaceLandmarker
+  embedder: FaceEmbedder
+}
+
+export type BackendLoader = () => Promise<FaceBackend>
+
+export const descriptorEmbedder: FaceEmbedder = {
+  embed: extractDescriptor,
+}
+
+// The model packages are imported inside the loaders so only the backend
+// that actually runs is downloaded.
+const loadTfjs = (id: BackendId, name: 'webgl' | 'wasm' | 'cpu'): BackendLoader => async () => {
+  const tf = await import('@tensorflow/tfjs-core')
+  if (name === 'webgl') {
+    await import('@tensorflow/tfjs-backend-webgl')
+  } else if (name === 'wasm') {
+    const wasm = await import('@tensorflow/tfjs-backend-wasm')
+    // The .wasm binaries are not bundled; fetch the ones matching the package.
+    wasm.setWasmPaths(`https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-backend-wasm@${wasm.version_wasm}/dist/`)
+  } else {
+    await import('@tensorflow/tfjs-backend-cpu')
+  }
+  if (!await tf.setBackend(name)) throw new Error(`The ${name} backend could not be initialized`)
+  await tf.ready()
+
+  const blazeface = await import('@tensorflow-models/blazeface')
+  const faceLandmarksDetection = await import('@tensorflow-models/face-landmarks-detection')
+  const blazefaceModel = await blazeface.load()
+  const landmarkModel = await faceLandmarksDetection.createDetector(
+    faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh,
+    {
+      runtime: 'tfjs',
+      refineLandmarks: true,
+      // FaceMesh only ever sees one tracked face's crop at a time.
+      maxFaces: 1
+    }
+  )
+
+  return {
+    id,
+    detector: {
+      async detect(frame) {
+        const pixels = tf.browser.fromPixels(frame)
+        try {
+          return await blazefaceModel.estimateFaces(pixels, false) as unknown as FaceDetection[]
+        } finally {
+          pixels.dispose()
+        }
+      },
+    },
+    landmarker: {
+      estimate: crop => landmarkModel.estimateFaces(crop),
+    },
+    embedder: descriptorEmbedder,
+  }
+}
+
+// MediaPipe's solution files expect a document. Where they cannot start in
+// the worker, loading fails and the fallback chain takes over.
+const loadMediaPipe: BackendLoader = async () => {
+  const faceDetection = await import('@tensorflow-models/face-detection')
+  const faceLandmarksDetection = await import('@tensorflow-models/face-landmarks-detection')
+  const detector = await faceDetection.createDetector(
+    faceDetection.SupportedModels.MediaPipeFaceDetector,
+    {
+      runtime: 'mediapipe',
+      solutionPath: 'https://cdn.jsdelivr.net/npm/@mediapipe/face_detection',
+      maxFaces: 10
+    }
+  )
+  const landmarkModel = await faceLandmarksDetection.createDetector(
+    faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh,
+    {
+      runtime: 'mediapipe',
+      solutionPath: 'https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh',
+      refineLandmarks: true,
+      maxFaces: 1
+    }
+  )
+
+  return {
+    id: 'mediapipe',
+    detector: {
+      async detect(frame) {
+        const faces = await detector.estimateFaces(frame)
+        // Same shape as BlazeFace output: both models report the eyes, nose,
+        // mouth and ears in the same order. No score is exposed.
+        return faces.map((face): FaceDetection => ({
+          topLeft: [face.box.xMin, face.box.yMin],
+          bottomRight: [face.box.xMax, face.box.yMax],
+          probability: [1],
+          landmarks: face.keypoints.map((point): [number, number] => [point.x, point.y]),
+        }))
+      },
+    },
+    landmarker: {
+      estimate: crop => landmarkModel.estimateFaces(crop),
+    },
+    embedder: descriptorEmbedder,
+  }
+}
+
+const loaders = new Map<BackendId, BackendLoader>([
+  ['tfjs-webgl', loadTfjs('tfjs-webgl', 'webgl')],
+  ['tfjs-wasm', loadTfjs('tfjs-wasm', 'wasm')],
+  ['tfjs-cpu', loadTfjs('tfjs-cpu', 'cpu')],
+  ['mediapipe', loadMediaPipe],
+])
+
+/**
+ * Replaces the loader for a backend, for sites that ship their own detector,
+ * landmarker or embedder. Call it in the worker before the pipeline loads.
+ */
+export function registerBackend(id: BackendId, loader: BackendLoader) {
+  loaders.set(id, loader)
+}
+
+/**
+ * Loads the preferred backend, falling back through the automatic order when
+ * it fails. Throws only when every candidate has failed.
+ */
+export async function loadBackend(preference: BackendPreference): Promise<{ backend: FaceBackend; failures: string[] }> {
+  const candidates = preference === 'auto'
+    ? AUTO_BACKENDS
+    : [preference, ...AUTO_BACKENDS.filter(id => id !== preference)]
+
+  const failures: string[] = []
+  for (const id of candidates) {
+    const loader = loaders.get(id)
+    if (!loader) continue
+    try {
+      return { backend: await loader(), failures }
+    } catch (err) {
+      console.error(`Error loading the ${id} backend:`, err)
+      failures.push(`${id}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  throw new Error(`No face detection backend could be loaded (${failures.join('; ')})`)
+}
@@ -0,0 +1,186 @@
+import { FaceBackend, loadBackend } from '@/lib/face-backends'
+import { ALIGNED_SIZE, alignFace } from '@/lib/face-alignment'
+import { FaceQuality, assessQuality } from '@/lib/face-quality'
+import { matchFace } from '@/lib/recognition'
+import { LivenessTracker } from '@/lib/liveness'
+import { Box, FaceTracker } from '@/lib/face-tracker'
+import {
+  BackendPreference,
+  FaceDetection,
+  PipelineConfig,
+  PipelineFace,
+  PipelineResult,
+} from '@/lib/pipeline-protocol'
+
+// Rotates and scales the face into an upright ALIGNED_SIZE square.
+const cropFace = (frame: ImageBitmap, face: FaceDetection): OffscreenCanvas => {
+  const { center, size, angle } = alignFace(face)
+  const canvas = new OffscreenCanvas(ALIGNED_SIZE, ALIGNED_SIZE)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return canvas
+  ctx.translate(ALIGNED_SIZE / 2, ALIGNED_SIZE / 2)
+  ctx.scale(ALIGNED_SIZE / size, ALIGNED_SIZE / size)
+  ctx.rotate(-angle)
+  ctx.translate(-center[0], -center[1])
+  ctx.drawImage(frame, 0, 0)
+  return canvas
+}
+
+// OffscreenCanvas has no toDataURL; workers get a synchronous FileReader.
+declare const FileReaderSync: { new(): { readAsDataURL(blob: Blob): string } }
+
+const toDataURL = async (canvas: OffscreenCanvas) =>
+  new FileReaderSync().readAsDataURL(await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 }))
+
+// Tracking state for one camera feed.
+interface StreamState {
+  tracker: FaceTracker
+  liveness: LivenessTracker
+  // Latest results per track; faces skipped by the recognition budget on a
+  // frame keep reporting their last result.
+  views: Map<number, PipelineFace>
+}
+
+/**
+ * Detection, tracking, recognition and liveness for one or more streams of
+ * frames. Runs inside the inference worker so none of it blocks the page;
+ * the models are loaded once, from whichever backend is available, and
+ * shared by every stream.
+ */
+export class FacePipeline {
+  private streams = new Map<string, StreamState>()
+  private config: PipelineConfig = { roster: [], matchThreshold: 0, minQuality: 0, requireChallenge: false, enrolling: false }
+
+  private constructor(
+    private models: FaceBackend,
+    // Backends tried and skipped before this one loaded.
+    readonly failures: string[],
+  ) {}
+
+  static async load(preference: BackendPreference): Promise<FacePipeline> {
+    const { backend, failures } = await loadBackend(preference)
+    return new FacePipeline(backend, failures)
+  }
+
+  get backend() {
+    return this.models.id
+  }
+
+  configure(config: PipelineConfig) {
+    if (config.requireChallenge !== this.config.requireChallenge) {
+      this.streams.forEach(stream => {
+        stream.liveness.setOptions({ requireChallenge: config.requireChallenge })
+        stream.liveness.reset()
+      })
+    }
+    this.config = config
+  }
+
+  reset(streamId: string) {
+    this.streams.delete(streamId)
+  }
+
+  private stream(streamId: string): StreamState {
+    let stream = this.streams.get(streamId)
+    if (!stream) {
+      stream = {
+        tracker: new FaceTracker(),
+        liveness: new LivenessTracker({ requireChallenge: this.config.requireChallenge }),
+        views: new Map(),
+      }
+      this.streams.set(streamId, stream)
+    }
+    return stream
+  }
+
+  async process(streamId: string, frame: ImageBitmap, now: number): Promise<PipelineResult> {
+    const { tracker, liveness: livenessTracker, views: previousViews } = this.stream(streamId)
+    const started = performance.now()
+    const predictions = await this.models.detector.detect(frame)
+
+    const tracks = tracker.update(
+      predictions.map((face): Box => [face.topLeft[0], face.topLeft[1], face.bottomRight[0], face.bottomRight[1]]),
+      now
+    )
+    const live = new Set(tracks.filter(track => previousViews.get(track.id)?.liveness?.passed).map(track => track.id))
+    // While enrolling every face is processed so each frame yields a fresh
+    // sample; otherwise the tracker decides who is due.
+    const toRecognize = this.config.enrolling
+      ? new Set(tracks.map(track => track.id))
+      : tracker.selectForRecognition(tracks, now)
+    const toCheckLiveness = tracker.selectForLiveness(tracks, live, toRecognize)
+
+    const views = new Map<number, PipelineFace>()
+    let enrollmentDescriptor: number[] | null = null
+    let enrollmentQuality: FaceQuality | null = null
+
+    for (let i = 0; i < predictions.length; i++) {
+      const face = predictions[i]
+      const track = tracks[i]
+
+      let view = previousViews.get(track.id)
+      const recognize = toRecognize.has(track.id)
+      // A track still proving liveness gets landmarks between recognitions,
+      // as far as the tracker's budget allows.
+      const checkLiveness = view !== undefined && toCheckLiveness.has(track.id)
+      if (recognize || checkLiveness) {
+        const croppedCanvas = cropFace(frame, face)
+        const cropPixels = croppedCanvas.getContext('2d')?.getImageData(0, 0, croppedCanvas.width, croppedCanvas.height)
+        const landmarks = cropPixels ? await this.models.landmarker.estimate(cropPixels) : []
+        // Liveness follows the track, so evidence gathered before the
+        // identity is confirmed still counts.
+        const liveness = landmarks.length > 0
+          ? livenessTracker.update(String(track.id), landmarks[0].keypoints, now)
+          : view?.liveness ?? null
+
+        if (!recognize) {
+          if (view && landmarks.length > 0) view = { ...view, landmarks, liveness }
+        } else {
+          const descriptor = cropPixels && landmarks.length > 0
+            ? this.models.embedder.embed(cropPixels, landmarks[0].keypoints)
+            : null
+          const quality = cropPixels && landmarks.length > 0
+            ? assessQuality(cropPixels, landmarks[0].keypoints, face.bottomRight[0] - face.topLeft[0], this.config.minQuality)
+            : null
+          // A blurry or badly posed frame does not get a vote at all, so it
+          // cannot tip the track towards a wrong match.
+          if (descriptor && quality && !quality.passed) {
+            tracker.skipVote(track, now)
+          } else {
+            tracker.addVote(
+              track,
+              descriptor ? matchFace(descriptor, this.config.roster, this.config.matchThreshold) : null,
+              now
+            )
+          }
+          view = {
+            trackId: track.id,
+            detection: face,
+            image: await toDataURL(croppedCanvas),
+            landmarks,
+            descriptor,
+            quality,
+            identity: track.identity,
+            liveness,
+          }
+          if (predictions.length === 1) {
+            enrollmentDescriptor = descriptor
+            enrollmentQuality = quality
+          }
+        }
+      }
+      if (!view) continue
+      views.set(track.id, { ...view, detection: face, identity: track.identity })
+    }
+
+    this.stream(streamId).views = views
+    return {
+      detections: predictions,
+      faces: Array.from(views.values()),
+      enrollmentDescriptor,
+      enrollmentQuality,
+      inferenceMs: performance.now() - started,
+      timestamp: now,
+    }
+  }
+}
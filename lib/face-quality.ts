@@ -0,0 +1,162 @@
+import type { Keypoint } from '@tensorflow-models/face-landmarks-detection'
+import type { PixelData } from '@/lib/face-template'
+import { yawRatio } from '@/lib/liveness'
+
+// MediaPipe FaceMesh points at the top of the forehead and the bottom of the
+// chin, used with the nose tip for pitch.
+const FOREHEAD = 10
+const CHIN = 152
+const NOSE_TIP = 1
+
+// Side of the grayscale grid the face is resampled into for the sharpness
+// and exposure measurements, so they do not depend on the crop size.
+const SAMPLE_GRID = 64
+
+export type QualityIssue = 'size' | 'sharpness' | 'dark' | 'bright' | 'contrast' | 'pose'
+
+const QUALITY_HINTS: Record<QualityIssue, string> = {
+  size: 'Move closer to the camera.',
+  sharpness: 'Hold still, the image is blurry.',
+  dark: 'Too dark. Add light in front of the face.',
+  bright: 'Too bright. Avoid strong light on the face.',
+  contrast: 'The image is washed out. Improve the lighting.',
+  pose: 'Face the camera directly.',
+}
+
+export interface QualityOptions {
+  // Face width in source frame pixels.
+  minFaceSize: number
+  // Variance of the Laplacian over the resampled face.
+  minSharpness: number
+  // Standard deviation of the face's luminance.
+  minContrast: number
+  // Largest yaw ratio, and largest pitch ratio away from a level face.
+  maxYaw: number
+  maxPitch: number
+}
+
+export const DEFAULT_QUALITY_OPTIONS: QualityOptions = {
+  minFaceSize: 80,
+  minSharpness: 60,
+  minContrast: 20,
+  maxYaw: 0.35,
+  maxPitch: 0.25,
+}
+
+// Every component is scored so this is exactly its configured limit and 1
+// is comfortably past it, which makes one threshold work for all of them.
+export const DEFAULT_MIN_QUALITY = 0.5
+
+// Pitch ratio of a level face: the nose tip sits a little below halfway
+// between forehead and chin.
+const LEVEL_PITCH = 0.1
+
+export interface FaceQuality {
+  // Lowest of the component scores, from 0 to 1.
+  score: number
+  // Whether the score clears the minimum the face was assessed against.
+  passed: boolean
+  size: number
+  sharpness: number
+  exposure: number
+  contrast: number
+  pose: number
+  issues: QualityIssue[]
+  // What the person should change, for the worst issue, if any.
+  hint: string | null
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+/**
+ * Where the nose tip sits between forehead and chin, from -1 to 1. Positive
+ * when it is closer to the chin.
+ */
+export function pitchRatio(keypoints: Keypoint[]): number {
+  const nose = keypoints[NOSE_TIP]
+  const toTop = Math.hypot(nose.x - keypoints[FOREHEAD].x, nose.y - keypoints[FOREHEAD].y)
+  const toBottom = Math.hypot(nose.x - keypoints[CHIN].x, nose.y - keypoints[CHIN].y)
+  return toTop + toBottom > 0 ? (toTop - toBottom) / (toTop + toBottom) : 0
+}
+
+// Luminance of the mesh's bounding box, resampled to SAMPLE_GRID squared.
+const sampleFace = (pixels: PixelData, keypoints: Keypoint[]): number[] => {
+  const xs = keypoints.map(point => point.x)
+  const ys = keypoints.map(point => point.y)
+  const left = Math.max(0, Math.min(...xs))
+  const top = Math.max(0, Math.min(...ys))
+  const right = Math.min(pixels.width - 1, Math.max(...xs))
+  const bottom = Math.min(pixels.height - 1, Math.max(...ys))
+
+  const values: number[] = []
+  for (let row = 0; row < SAMPLE_GRID; row++) {
+    const y = Math.round(top + ((bottom - top) * row) / (SAMPLE_GRID - 1))
+    for (let col = 0; col < SAMPLE_GRID; col++) {
+      const x = Math.round(left + ((right - left) * col) / (SAMPLE_GRID - 1))
+      const offset = (y * pixels.width + x) * 4
+      values.push(0.299 * pixels.data[offset] + 0.587 * pixels.data[offset + 1] + 0.114 * pixels.data[offset + 2])
+    }
+  }
+  return values
+}
+
+const laplacianVariance = (grid: number[]): number => {
+  const responses: number[] = []
+  for (let row = 1; row < SAMPLE_GRID - 1; row++) {
+    for (let col = 1; col < SAMPLE_GRID - 1; col++) {
+      const i = row * SAMPLE_GRID + col
+      responses.push(grid[i - SAMPLE_GRID] + grid[i + SAMPLE_GRID] + grid[i - 1] + grid[i + 1] - 4 * grid[i])
+    }
+  }
+  const mean = responses.reduce((sum, v) => sum + v, 0) / responses.length
+  return responses.reduce((sum, v) => sum + (v - mean) ** 2, 0) / responses.length
+}
+
+/**
+ * Scores how usable one face crop is for recognition: sharpness, exposure,
+ * contrast, face size and head pose. `faceSize` is the face's width in the
+ * source frame, since the crop itself is always resampled to the same size.
+ */
+export function assessQuality(
+  pixels: PixelData,
+  keypoints: Keypoint[],
+  faceSize: number,
+  minQuality = DEFAULT_MIN_QUALITY,
+  options: QualityOptions = DEFAULT_QUALITY_OPTIONS
+): FaceQuality {
+  const grid = sampleFace(pixels, keypoints)
+  const mean = grid.reduce((sum, v) => sum + v, 0) / grid.length
+  const deviation = Math.sqrt(grid.reduce((sum, v) => sum + (v - mean) ** 2, 0) / grid.length)
+
+  const size = clamp(faceSize / (2 * options.minFaceSize))
+  const sharpness = clamp(laplacianVariance(grid) / (2 * options.minSharpness))
+  // A mid-gray mean scores 1; a mean of 64 or 192 scores 0.5.
+  const exposure = clamp(1 - Math.abs(mean - 128) / 128)
+  const contrast = clamp(deviation / (2 * options.minContrast))
+  const pose = clamp(1 - Math.max(
+    Math.abs(yawRatio(keypoints)) / (2 * options.maxYaw),
+    Math.abs(pitchRatio(keypoints) - LEVEL_PITCH) / (2 * options.maxPitch)
+  ))
+
+  const components: [QualityIssue, number][] = [
+    ['size', size],
+    ['sharpness', sharpness],
+    [mean < 128 ? 'dark' : 'bright', exposure],
+    ['contrast', contrast],
+    ['pose', pose],
+  ]
+  const failing = components.filter(([, score]) => score < minQuality).sort((a, b) => a[1] - b[1])
+
+  const score = Math.min(size, sharpness, exposure, contrast, pose)
+  return {
+    score,
+    passed: score >= minQuality,
+    size,
+    sharpness,
+    exposure,
+    contrast,
+    pose,
+    issues: failing.map(([issue]) => issue),
+    hint: failing.length > 0 ? QUALITY_HINTS[failing[0][0]] : null,
+  }
+}
@@ -0,0 +1,167 @@
+import type { Keypoint } from '@tensorflow-models/face-landmarks-detection'
+
+// Raw RGBA pixels of a face crop. Structurally compatible with ImageData so
+// browser canvases can be passed straight in, but also easy to build from a
+// tensor on the server.
+export interface PixelData {
+  width: number
+  height: number
+  data: Uint8ClampedArray | Uint8Array
+}
+
+// MediaPipe FaceMesh indices for the outer and inner corners of each eye.
+const RIGHT_EYE_CORNERS = [33, 133]
+const LEFT_EYE_CORNERS = [362, 263]
+
+// The refined mesh appends ten iris points after the 468 face points; they
+// move with gaze, so they are left out of the geometry part of a descriptor.
+const MESH_POINT_COUNT = 468
+
+// Side of the grayscale grid sampled for the appearance part of a descriptor.
+const APPEARANCE_GRID = 16
+
+// How much the geometry and appearance parts contribute to the similarity.
+const GEOMETRY_WEIGHT = 0.6
+const APPEARANCE_WEIGHT = 0.4
+
+export const DESCRIPTOR_LENGTH = MESH_POINT_COUNT * 2 + APPEARANCE_GRID * APPEARANCE_GRID
+
+const midpoint = (points: Keypoint[], indices: number[]): [number, number] => {
+  const x = indices.reduce((sum, i) => sum + points[i].x, 0) / indices.length
+  const y = indices.reduce((sum, i) => sum + points[i].y, 0) / indices.length
+  return [x, y]
+}
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return norm > 0 ? vector.map(v => v / norm) : vector
+}
+
+const standardize = (vector: number[]): number[] => {
+  const mean = vector.reduce((sum, v) => sum + v, 0) / vector.length
+  const centered = vector.map(v => v - mean)
+  return normalize(centered)
+}
+
+// Eye-aligned frame of a face: origin between the eyes, x axis along the eye
+// line, one unit equal to the inter-ocular distance.
+interface FaceFrame {
+  origin: [number, number]
+  cos: number
+  sin: number
+  scale: number
+}
+
+const faceFrame = (keypoints: Keypoint[]): FaceFrame => {
+  const right = midpoint(keypoints, RIGHT_EYE_CORNERS)
+  const left = midpoint(keypoints, LEFT_EYE_CORNERS)
+  const dx = left[0] - right[0]
+  const dy = left[1] - right[1]
+  const scale = Math.hypot(dx, dy) || 1
+  return {
+    origin: [(left[0] + right[0]) / 2, (left[1] + right[1]) / 2],
+    cos: dx / scale,
+    sin: dy / scale,
+    scale,
+  }
+}
+
+const toFrame = (frame: FaceFrame, x: number, y: number): [number, number] => {
+  const tx = x - frame.origin[0]
+  const ty = y - frame.origin[1]
+  return [
+    (tx * frame.cos + ty * frame.sin) / frame.scale,
+    (-tx * frame.sin + ty * frame.cos) / frame.scale,
+  ]
+}
+
+const fromFrame = (frame: FaceFrame, u: number, v: number): [number, number] => {
+  const tx = u * frame.scale
+  const ty = v * frame.scale
+  return [
+    frame.origin[0] + tx * frame.cos - ty * frame.sin,
+    frame.origin[1] + tx * frame.sin + ty * frame.cos,
+  ]
+}
+
+const geometryFeatures = (keypoints: Keypoint[], frame: FaceFrame): number[] => {
+  const features: number[] = []
+  for (let i = 0; i < MESH_POINT_COUNT; i++) {
+    const [u, v] = toFrame(frame, keypoints[i].x, keypoints[i].y)
+    features.push(u, v)
+  }
+  return standardize(features)
+}
+
+const luminanceAt = (pixels: PixelData, x: number, y: number): number => {
+  const px = Math.min(pixels.width - 1, Math.max(0, Math.round(x)))
+  const py = Math.min(pixels.height - 1, Math.max(0, Math.round(y)))
+  const offset = (py * pixels.width + px) * 4
+  return 0.299 * pixels.data[offset] + 0.587 * pixels.data[offset + 1] + 0.114 * pixels.data[offset + 2]
+}
+
+const appearanceFeatures = (pixels: PixelData, frame: FaceFrame): number[] => {
+  // Sample a square spanning roughly brow to chin, in eye-aligned units, so
+  // head roll and distance from the camera do not change the grid.
+  const features: number[] = []
+  for (let row = 0; row < APPEARANCE_GRID; row++) {
+    for (let col = 0; col < APPEARANCE_GRID; col++) {
+      const u = -1.1 + (2.2 * (col + 0.5)) / APPEARANCE_GRID
+      const v = -0.7 + (2.6 * (row + 0.5)) / APPEARANCE_GRID
+      const [x, y] = fromFrame(frame, u, v)
+      features.push(luminanceAt(pixels, x, y))
+    }
+  }
+  return standardize(features)
+}
+
+/**
+ * Turns one face crop and its FaceMesh keypoints into a fixed-length
+ * descriptor. Returns null when the mesh is incomplete.
+ */
+export function extractDescriptor(pixels: PixelData, keypoints: Keypoint[]): number[] | null {
+  if (keypoints.length < MESH_POINT_COUNT) return null
+
+  const frame = faceFrame(keypoints)
+  const geometry = geometryFeatures(keypoints, frame).map(v => v * Math.sqrt(GEOMETRY_WEIGHT))
+  const appearance = appearanceFeatures(pixels, frame).map(v => v * Math.sqrt(APPEARANCE_WEIGHT))
+  return [...geometry, ...appearance]
+}
+
+/**
+ * Averages several descriptors of the same person into a single template.
+ */
+export function buildTemplate(descriptors: number[][]): number[] {
+  if (descriptors.length === 0) {
+    throw new Error('At least one descriptor is required to build a template')
+  }
+  const sum = new Array<number>(descriptors[0].length).fill(0)
+  for (const descriptor of descriptors) {
+    descriptor.forEach((v, i) => { sum[i] += v })
+  }
+  return normalize(sum.map(v => v / descriptors.length))
+}
+
+/**
+ * Folds more descriptors into a template built from `sampleCount` earlier
+ * ones, weighting the template by the samples it already holds.
+ */
+export function extendTemplate(template: number[], sampleCount: number, descriptors: number[][]): number[] {
+  return buildTemplate([...new Array<number[]>(sampleCount).fill(template), ...descriptors.map(normalize)])
+}
+
+/**
+ * Cosine similarity between two descriptors or templates, in [-1, 1].
+ */
+export function compareDescriptors(a: number[], b: number[]): number {
+  if (a.length !== b.length) return -1
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : -1
+}
@@ -0,0 +1,229 @@
+import { FaceMatch } from '@/lib/recognition'
+
+// Axis-aligned box in video pixels: [left, top, right, bottom].
+export type Box = [number, number, number, number]
+
+export interface TrackerOptions {
+  // Minimum association score for a detection to continue a track.
+  minScore: number
+  // Drop a track after it has gone unmatched for this long.
+  maxMissedMs: number
+  // Recognition results kept per track when voting on an identity.
+  voteWindow: number
+  // Votes a person needs, and the share of the window they must hold, before
+  // a track is confirmed as them.
+  minVotes: number
+  minVoteShare: number
+  // How often a confirmed track is re-recognized to catch identity swaps.
+  refreshMs: number
+  // Upper bound on recognition passes per frame.
+  maxRecognitionsPerFrame: number
+  // Upper bound on landmark-only passes per frame for tracks still proving
+  // liveness, on top of the recognition passes.
+  maxLivenessChecksPerFrame: number
+}
+
+export const DEFAULT_TRACKER_OPTIONS: TrackerOptions = {
+  minScore: 0.2,
+  maxMissedMs: 1500,
+  voteWindow: 10,
+  minVotes: 3,
+  minVoteShare: 0.6,
+  refreshMs: 3000,
+  maxRecognitionsPerFrame: 3,
+  maxLivenessChecksPerFrame: 3,
+}
+
+export interface TrackIdentity {
+  personId: string
+  name: string
+  similarity: number
+}
+
+export interface Track {
+  id: number
+  box: Box
+  // Box movement per millisecond, used to predict the next position.
+  velocity: [number, number]
+  firstSeen: number
+  lastSeen: number
+  lastRecognized: number | null
+  // Recent recognition results, null for frames where nobody matched.
+  votes: (FaceMatch | null)[]
+  identity: TrackIdentity | null
+}
+
+export function iou(a: Box, b: Box): number {
+  const width = Math.min(a[2], b[2]) - Math.max(a[0], b[0])
+  const height = Math.min(a[3], b[3]) - Math.max(a[1], b[1])
+  if (width <= 0 || height <= 0) return 0
+  const intersection = width * height
+  const area = (box: Box) => (box[2] - box[0]) * (box[3] - box[1])
+  return intersection / (area(a) + area(b) - intersection)
+}
+
+const center = (box: Box): [number, number] => [(box[0] + box[2]) / 2, (box[1] + box[3]) / 2]
+
+/**
+ * Associates face boxes between frames so each face keeps a stable ID while
+ * it stays in view, and accumulates recognition votes for it over time.
+ */
+export class FaceTracker {
+  private tracks: Track[] = []
+  private nextId = 1
+  private options: TrackerOptions
+
+  constructor(options: Partial<TrackerOptions> = {}) {
+    this.options = { ...DEFAULT_TRACKER_OPTIONS, ...options }
+  }
+
+  /**
+   * Matches this frame's detections to existing tracks, starting new tracks
+   * for the rest. Returns the track for each detection, in the same order.
+   */
+  update(detections: Box[], now = Date.now()): Track[] {
+    const candidates: { track: Track; detection: number; score: number }[] = []
+    for (const track of this.tracks) {
+      const elapsed = now - track.lastSeen
+      const predicted: Box = [
+        track.box[0] + track.velocity[0] * elapsed,
+        track.box[1] + track.velocity[1] * elapsed,
+        track.box[2] + track.velocity[0] * elapsed,
+        track.box[3] + track.velocity[1] * elapsed,
+      ]
+      detections.forEach((detection, index) => {
+        const score = this.score(predicted, detection)
+        if (score >= this.options.minScore) candidates.push({ track, detection: index, score })
+      })
+    }
+
+    // Greedy assignment, best pairs first.
+    candidates.sort((a, b) => b.score - a.score)
+    const assigned: (Track | undefined)[] = new Array(detections.length)
+    const taken = new Set<Track>()
+    for (const { track, detection } of candidates) {
+      if (assigned[detection] || taken.has(track)) continue
+      assigned[detection] = track
+      taken.add(track)
+
+      const elapsed = Math.max(1, now - track.lastSeen)
+      const [oldX, oldY] = center(track.box)
+      const [newX, newY] = center(detections[detection])
+      // Smooth the velocity so one jittery box does not throw off prediction.
+      track.velocity = [
+        0.5 * track.velocity[0] + 0.5 * (newX - oldX) / elapsed,
+        0.5 * track.velocity[1] + 0.5 * (newY - oldY) / elapsed,
+      ]
+      track.box = detections[detection]
+      track.lastSeen = now
+    }
+
+    const result = detections.map((detection, index) => {
+      const existing = assigned[index]
+      if (existing) return existing
+      const track: Track = {
+        id: this.nextId++,
+        box: detection,
+        velocity: [0, 0],
+        firstSeen: now,
+        lastSeen: now,
+        lastRecognized: null,
+        votes: [],
+        identity: null,
+      }
+      this.tracks.push(track)
+      return track
+    })
+
+    this.tracks = this.tracks.filter(track => now - track.lastSeen <= this.options.maxMissedMs)
+    return result
+  }
+
+  /**
+   * Picks which of this frame's tracks get the recognition pass: unconfirmed
+   * tracks first, then confirmed ones due for a refresh, oldest result
+   * first, up to the per-frame budget.
+   */
+  selectForRecognition(tracks: Track[], now = Date.now()): Set<number> {
+    const due = tracks.filter(track =>
+      !track.identity ||
+      track.lastRecognized === null ||
+      now - track.lastRecognized >= this.options.refreshMs)
+    due.sort((a, b) => {
+      if (!a.identity !== !b.identity) return a.identity ? 1 : -1
+      return (a.lastRecognized ?? 0) - (b.lastRecognized ?? 0)
+    })
+    return new Set(due.slice(0, this.options.maxRecognitionsPerFrame).map(track => track.id))
+  }
+
+  /**
+   * Picks which tracks not in `recognizing` get a landmark pass for
+   * liveness, up to its own per-frame budget. `live` holds the IDs of tracks
+   * that have already passed. Blinks and head turns only show up in
+   * consecutive frames, so the same tracks keep their places until they
+   * pass: confirmed ones first, then the longest tracked.
+   */
+  selectForLiveness(tracks: Track[], live: Set<number>, recognizing: Set<number>): Set<number> {
+    const due = tracks.filter(track => !live.has(track.id) && !recognizing.has(track.id))
+    due.sort((a, b) => {
+      if (!a.identity !== !b.identity) return a.identity ? -1 : 1
+      return a.firstSeen - b.firstSeen
+    })
+    return new Set(due.slice(0, this.options.maxLivenessChecksPerFrame).map(track => track.id))
+  }
+
+  /**
+   * Adds one recognition result to a track and re-runs the vote. Returns the
+   * track's identity after the vote, which may be unchanged or null.
+   */
+  addVote(track: Track, match: FaceMatch | null, now = Date.now()): TrackIdentity | null {
+    track.lastRecognized = now
+    track.votes = [...track.votes, match].slice(-this.options.voteWindow)
+
+    const tally = new Map<string, { count: number; total: number; name: string }>()
+    for (const vote of track.votes) {
+      if (!vote) continue
+      const entry = tally.get(vote.person.id) ?? { count: 0, total: 0, name: vote.person.name }
+      entry.count++
+      entry.total += vote.similarity
+      tally.set(vote.person.id, entry)
+    }
+
+    let winner: TrackIdentity | null = null
+    let winnerCount = 0
+    for (const [personId, entry] of Array.from(tally)) {
+      if (entry.count > winnerCount) {
+        winner = { personId, name: entry.name, similarity: entry.total / entry.count }
+        winnerCount = entry.count
+      }
+    }
+
+    const confirmed = winnerCount >= this.options.minVotes &&
+      winnerCount / track.votes.length >= this.options.minVoteShare
+    track.identity = confirmed ? winner : null
+    return track.identity
+  }
+
+  /**
+   * Records a recognition pass that produced nothing worth voting on, so the
+   * track waits its turn again instead of being picked on every frame.
+   */
+  skipVote(track: Track, now = Date.now()) {
+    track.lastRecognized = now
+  }
+
+  reset() {
+    this.tracks = []
+  }
+
+  private score(predicted: Box, detection: Box): number {
+    const overlap = iou(predicted, detection)
+    // Fall back on center distance, relative to face size, for fast motion
+    // where the boxes no longer overlap.
+    const [px, py] = center(predicted)
+    const [dx, dy] = center(detection)
+    const size = Math.max(predicted[2] - predicted[0], detection[2] - detection[0])
+    const proximity = Math.max(0, 1 - Math.hypot(px - dx, py - dy) / size)
+    return Math.max(overlap, 0.5 * proximity)
+  }
+}
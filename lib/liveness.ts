@@ -0,0 +1,201 @@
+import type { Keypoint } from '@tensorflow-models/face-landmarks-detection'
+
+// MediaPipe FaceMesh points used for the eye aspect ratio, ordered
+// p1..p6 as in Soukupová and Čech: corners first and last, lids in between.
+const RIGHT_EYE = [33, 160, 158, 133, 153, 144]
+const LEFT_EYE = [362, 385, 387, 263, 373, 380]
+const MOUTH_CORNERS = [78, 308]
+const INNER_LIPS = [13, 14]
+const NOSE_TIP = 1
+const FACE_EDGES = [234, 454]
+
+export type LivenessChallenge = 'turn-left' | 'turn-right' | 'open-mouth'
+
+const CHALLENGES: LivenessChallenge[] = ['turn-left', 'turn-right', 'open-mouth']
+
+const CHALLENGE_PROMPTS: Record<LivenessChallenge, string> = {
+  'turn-left': 'Turn your head to the left',
+  'turn-right': 'Turn your head to the right',
+  'open-mouth': 'Open your mouth',
+}
+
+export interface LivenessOptions {
+  // Eye aspect ratio below which the eyes count as closed, and above which
+  // they count as open again.
+  closedEyeRatio: number
+  openEyeRatio: number
+  // Spread of the yaw ratio across frames that counts as natural head motion.
+  // A flat photo moved around keeps its yaw ratio nearly constant.
+  minYawRange: number
+  // Yaw ratio a prompted head turn has to reach, and mouth aspect ratio a
+  // prompted open mouth has to reach.
+  turnYawRatio: number
+  openMouthRatio: number
+  requireBlink: boolean
+  requireMovement: boolean
+  requireChallenge: boolean
+  // Forget a subject that has not been seen for this long.
+  expireAfterMs: number
+}
+
+export const DEFAULT_LIVENESS_OPTIONS: LivenessOptions = {
+  closedEyeRatio: 0.18,
+  openEyeRatio: 0.24,
+  minYawRange: 0.08,
+  turnYawRatio: 0.3,
+  openMouthRatio: 0.45,
+  requireBlink: true,
+  requireMovement: true,
+  requireChallenge: false,
+  expireAfterMs: 5000,
+}
+
+export interface LivenessResult {
+  passed: boolean
+  blinkSeen: boolean
+  movementSeen: boolean
+  challenge: LivenessChallenge | null
+  challengeMet: boolean
+  // What the person in front of the camera should do next, if anything.
+  prompt: string | null
+}
+
+interface SubjectState {
+  eyesClosed: boolean
+  blinkSeen: boolean
+  minYaw: number
+  maxYaw: number
+  challenge: LivenessChallenge | null
+  challengeMet: boolean
+  passed: boolean
+  lastSeen: number
+}
+
+const distance = (a: Keypoint, b: Keypoint) => Math.hypot(a.x - b.x, a.y - b.y)
+
+export function eyeAspectRatio(keypoints: Keypoint[], eye: number[]): number {
+  const [p1, p2, p3, p4, p5, p6] = eye.map(i => keypoints[i])
+  const width = distance(p1, p4)
+  return width > 0 ? (distance(p2, p6) + distance(p3, p5)) / (2 * width) : 0
+}
+
+export function mouthAspectRatio(keypoints: Keypoint[]): number {
+  const width = distance(keypoints[MOUTH_CORNERS[0]], keypoints[MOUTH_CORNERS[1]])
+  return width > 0 ? distance(keypoints[INNER_LIPS[0]], keypoints[INNER_LIPS[1]]) / width : 0
+}
+
+/**
+ * Where the nose sits between the two sides of the face, from -1 to 1. It is
+ * positive when the subject turns to their left, assuming an unmirrored feed.
+ */
+export function yawRatio(keypoints: Keypoint[]): number {
+  const nose = keypoints[NOSE_TIP]
+  const toRight = distance(nose, keypoints[FACE_EDGES[0]])
+  const toLeft = distance(nose, keypoints[FACE_EDGES[1]])
+  return toRight + toLeft > 0 ? (toRight - toLeft) / (toRight + toLeft) : 0
+}
+
+/**
+ * Follows each subject across frames and decides whether they are a live
+ * person rather than a photo or screen: a blink, some natural head motion
+ * and, when enabled, a randomly prompted action.
+ */
+export class LivenessTracker {
+  private subjects = new Map<string, SubjectState>()
+  private options: LivenessOptions
+
+  constructor(options: Partial<LivenessOptions> = {}) {
+    this.options = { ...DEFAULT_LIVENESS_OPTIONS, ...options }
+  }
+
+  setOptions(options: Partial<LivenessOptions>) {
+    this.options = { ...this.options, ...options }
+  }
+
+  update(subjectId: string, keypoints: Keypoint[], now = Date.now()): LivenessResult {
+    this.expire(now)
+
+    let state = this.subjects.get(subjectId)
+    if (!state) {
+      state = {
+        eyesClosed: false,
+        blinkSeen: false,
+        minYaw: Infinity,
+        maxYaw: -Infinity,
+        challenge: null,
+        challengeMet: false,
+        passed: false,
+        lastSeen: now,
+      }
+      this.subjects.set(subjectId, state)
+    }
+    state.lastSeen = now
+    if (state.passed) return this.result(state)
+
+    const { options } = this
+    const ear = (eyeAspectRatio(keypoints, RIGHT_EYE) + eyeAspectRatio(keypoints, LEFT_EYE)) / 2
+    if (ear < options.closedEyeRatio) {
+      state.eyesClosed = true
+    } else if (ear > options.openEyeRatio && state.eyesClosed) {
+      state.eyesClosed = false
+      state.blinkSeen = true
+    }
+
+    const yaw = yawRatio(keypoints)
+    state.minYaw = Math.min(state.minYaw, yaw)
+    state.maxYaw = Math.max(state.maxYaw, yaw)
+
+    if (options.requireChallenge && !state.challenge) {
+      state.challenge = CHALLENGES[Math.floor(Math.random() * CHALLENGES.length)]
+    }
+    if (state.challenge && !state.challengeMet) {
+      state.challengeMet =
+        (state.challenge === 'turn-left' && yaw > options.turnYawRatio) ||
+        (state.challenge === 'turn-right' && yaw < -options.turnYawRatio) ||
+        (state.challenge === 'open-mouth' && mouthAspectRatio(keypoints) > options.openMouthRatio)
+    }
+
+    state.passed =
+      (!options.requireBlink || state.blinkSeen) &&
+      (!options.requireMovement || this.movementSeen(state)) &&
+      (!options.requireChallenge || state.challengeMet)
+
+    return this.result(state)
+  }
+
+  reset() {
+    this.subjects.clear()
+  }
+
+  private movementSeen(state: SubjectState) {
+    return state.maxYaw - state.minYaw >= this.options.minYawRange
+  }
+
+  private expire(now: number) {
+    this.subjects.forEach((state, id) => {
+      if (now - state.lastSeen > this.options.expireAfterMs) this.subjects.delete(id)
+    })
+  }
+
+  private result(state: SubjectState): LivenessResult {
+    const movementSeen = this.movementSeen(state)
+    let prompt: string | null = null
+    if (!state.passed) {
+      if (this.options.requireChallenge && state.challenge && !state.challengeMet) {
+        prompt = CHALLENGE_PROMPTS[state.challenge]
+      } else if (this.options.requireBlink && !state.blinkSeen) {
+        prompt = 'Blink'
+      } else if (this.options.requireMovement && !movementSeen) {
+        prompt = 'Move your head slightly'
+      }
+    }
+    return {
+      passed: state.passed,
+      blinkSeen: state.blinkSeen,
+      movementSeen,
+      challenge: state.challenge,
+      challengeMet: state.challengeMet,
+      prompt,
+    }
+  }
+}
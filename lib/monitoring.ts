@@ -0,0 +1,58 @@
+import { CheckInStatus } from '@/lib/attendance'
+
+// What each camera page and kiosk reports about itself, every few seconds
+// and whenever it changes.
+export interface DeviceReport {
+  // Random ID kept per browser tab, so several tabs or devices signed in to
+  // the same account are told apart.
+  clientId: string
+  // Session the device is checking people in to.
+  sessionId: string | null
+  cameraRunning: boolean
+  modelsLoaded: boolean
+  // Camera or inference failure, if any.
+  error: string | null
+  // Frames processed per second, averaged over the running cameras.
+  fps: number
+}
+
+export interface DeviceStatus extends DeviceReport {
+  // Account or kiosk device the report came from.
+  name: string
+  role: string
+  lastSeen: string
+  // No report for longer than `SILENT_AFTER_MS`.
+  silent: boolean
+}
+
+export interface RecentArrival {
+  personId: string
+  name: string
+  timestamp: string
+  status: CheckInStatus
+}
+
+// One open session and the devices checking people in to it.
+export interface RoomStatus {
+  sessionId: string
+  className: string
+  teacher: string | null
+  startTime: string
+  endTime: string
+  expected: number
+  present: number
+  late: number
+  // Newest first.
+  recentArrivals: RecentArrival[]
+  devices: DeviceStatus[]
+}
+
+export interface MonitorSnapshot {
+  rooms: RoomStatus[]
+  // Devices reporting without an open session.
+  idleDevices: DeviceStatus[]
+}
+
+// Devices report this often, and count as silent after missing a few.
+export const STATUS_REPORT_MS = 10_000
+export const SILENT_AFTER_MS = 30_000
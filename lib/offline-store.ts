@@ -0,0 +1,132 @@
+import { CheckIn } from '@/lib/attendance'
+
+// Check-ins are written here before they are sent, and the roster and
+// sessions are cached here, so a device keeps recognizing people and
+// checking them in while the server is unreachable.
+const DB_NAME = 'jud-attendance'
+const DB_VERSION = 1
+const QUEUE_STORE = 'check-in-queue'
+const CACHE_STORE = 'cache'
+
+export interface QueuedCheckIn {
+  // One entry per person per session, see `queueKey`.
+  key: string
+  sessionId: string
+  checkIn: CheckIn
+  // Data URL of the recognized face, for the audit log.
+  snapshot?: string
+  queuedAt: string
+  // A send failed because the server was unreachable, so the check-in was
+  // held on this device and may reach the server after its session closed.
+  heldOffline?: boolean
+}
+
+export const queueKey = (sessionId: string, personId: string) => `${sessionId}:${personId}`
+
+let opening: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!opening) {
+    opening = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(QUEUE_STORE, { keyPath: 'key' })
+        request.result.createObjectStore(CACHE_STORE)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    opening.catch(() => { opening = null })
+  }
+  return opening
+}
+
+// Runs one request in its own transaction and resolves once that commits.
+const run = async <T,>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = action(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Adds a check-in to the queue. If the person is already queued for the
+ * session, the earlier sighting is kept.
+ */
+export async function enqueueCheckIn(sessionId: string, checkIn: CheckIn, snapshot?: string): Promise<void> {
+  const key = queueKey(sessionId, checkIn.personId)
+  const db = await openDatabase()
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, 'readwrite')
+    const store = transaction.objectStore(QUEUE_STORE)
+    const existing = store.get(key)
+    existing.onsuccess = () => {
+      const current = existing.result as QueuedCheckIn | undefined
+      if (current && current.checkIn.timestamp <= checkIn.timestamp) return
+      const entry: QueuedCheckIn = {
+        key,
+        sessionId,
+        checkIn,
+        snapshot,
+        queuedAt: new Date().toISOString(),
+        heldOffline: current?.heldOffline,
+      }
+      store.put(entry)
+    }
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Oldest sighting first, so sessions fill up in the order people arrived.
+export async function queuedCheckIns(): Promise<QueuedCheckIn[]> {
+  const entries = await run<QueuedCheckIn[]>(QUEUE_STORE, 'readonly', store => store.getAll())
+  return entries.sort((a, b) => a.checkIn.timestamp.localeCompare(b.checkIn.timestamp))
+}
+
+// Marks everything still queued as held offline, after a send failed.
+export async function holdQueuedCheckIns(): Promise<void> {
+  const db = await openDatabase()
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, 'readwrite')
+    const store = transaction.objectStore(QUEUE_STORE)
+    const all = store.getAll()
+    all.onsuccess = () => {
+      for (const entry of all.result as QueuedCheckIn[]) {
+        if (!entry.heldOffline) store.put({ ...entry, heldOffline: true })
+      }
+    }
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export async function dequeueCheckIn(key: string): Promise<void> {
+  await run(QUEUE_STORE, 'readwrite', store => store.delete(key))
+}
+
+export async function readCache<T>(key: string): Promise<T | undefined> {
+  return run<T | undefined>(CACHE_STORE, 'readonly', store => store.get(key))
+}
+
+export async function writeCache(key: string, value: unknown): Promise<void> {
+  await run(CACHE_STORE, 'readwrite', store => store.put(value, key))
+}
+
+/**
+ * Drops the cached roster and sessions, which hold face templates. Queued
+ * check-ins are kept so none are lost.
+ */
+export async function clearCache(): Promise<void> {
+  await run(CACHE_STORE, 'readwrite', store => store.clear())
+}
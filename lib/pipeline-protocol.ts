@@ -0,0 +1,78 @@
+import type { Face } from '@tensorflow-models/face-landmarks-detection'
+import type { FaceQuality } from '@/lib/face-quality'
+import type { LivenessResult } from '@/lib/liveness'
+import type { TrackIdentity } from '@/lib/face-tracker'
+import type { Person } from '@/lib/roster'
+
+// Types shared by the inference worker and the page. Kept free of runtime
+// imports so the page bundle does not pull in TensorFlow.
+
+// Inference backends the worker can run on. Automatic selection tries the
+// tfjs ones in this order; MediaPipe is only used when chosen.
+export type BackendId = 'tfjs-webgl' | 'tfjs-wasm' | 'tfjs-cpu' | 'mediapipe'
+export type BackendPreference = 'auto' | BackendId
+
+export const AUTO_BACKENDS: BackendId[] = ['tfjs-webgl', 'tfjs-wasm', 'tfjs-cpu']
+
+export const BACKEND_LABELS: Record<BackendPreference, string> = {
+  'auto': 'Automatic',
+  'tfjs-webgl': 'TensorFlow.js (WebGL)',
+  'tfjs-wasm': 'TensorFlow.js (WebAssembly)',
+  'tfjs-cpu': 'TensorFlow.js (CPU)',
+  'mediapipe': 'MediaPipe',
+}
+
+export interface FaceDetection {
+  topLeft: [number, number];
+  bottomRight: [number, number];
+  probability: [number];
+  landmarks: [number, number][];
+}
+
+export interface PipelineConfig {
+  roster: Person[]
+  matchThreshold: number
+  // Faces scoring below this are not used for recognition.
+  minQuality: number
+  requireChallenge: boolean
+  // While enrolling, every face is processed on every frame.
+  enrolling: boolean
+}
+
+export interface PipelineFace {
+  trackId: number
+  detection: FaceDetection
+  image: string
+  landmarks: Face[]
+  descriptor: number[] | null
+  quality: FaceQuality | null
+  identity: TrackIdentity | null
+  liveness: LivenessResult | null
+}
+
+export interface PipelineResult {
+  // Every face found in the frame, and the tracked results for those that
+  // have been processed at least once.
+  detections: FaceDetection[]
+  faces: PipelineFace[]
+  // Descriptor and quality from this frame when exactly one face was in
+  // view, for enrollment.
+  enrollmentDescriptor: number[] | null
+  enrollmentQuality: FaceQuality | null
+  inferenceMs: number
+  timestamp: number
+}
+
+// Messages between the camera feeds and the inference worker. One worker
+// serves every feed; `streamId` keeps their tracking state apart.
+export type PipelineRequest =
+  | { type: 'init'; backend: BackendPreference }
+  | { type: 'configure'; config: PipelineConfig }
+  | { type: 'frame'; streamId: string; frame: ImageBitmap; timestamp: number }
+  | { type: 'reset'; streamId: string }
+
+export type PipelineResponse =
+  // `failures` explains each backend that was tried and skipped on the way.
+  | { type: 'ready'; backend: BackendId; failures: string[] }
+  | { type: 'result'; streamId: string; result: PipelineResult }
+  | { type: 'error'; message: string; fatal: boolean; streamId?: string }
@@ -0,0 +1,26 @@
+import { compareDescriptors } from '@/lib/face-template'
+import { Person } from '@/lib/roster'
+
+// Cosine similarity a face must reach against a template to count as that
+// person. Operators can tune it per room from the camera view.
+export const DEFAULT_MATCH_THRESHOLD = 0.8
+
+export interface FaceMatch {
+  person: Person
+  similarity: number
+}
+
+/**
+ * Finds the enrolled person whose template is most similar to the given
+ * descriptor. Returns null when nobody clears the threshold.
+ */
+export function matchFace(descriptor: number[], roster: Person[], threshold: number): FaceMatch | null {
+  let best: FaceMatch | null = null
+  for (const person of roster) {
+    const similarity = compareDescriptors(descriptor, person.template)
+    if (!best || similarity > best.similarity) {
+      best = { person, similarity }
+    }
+  }
+  return best && best.similarity >= threshold ? best : null
+}
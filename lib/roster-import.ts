@@ -0,0 +1,34 @@
+// What happened to each row of a bulk roster import.
+export type ImportOutcome =
+  | 'enrolled'
+  | 'invalid-row'
+  | 'no-photo'
+  | 'unreadable-photo'
+  | 'no-face'
+  | 'multiple-faces'
+  | 'low-quality'
+
+export interface ImportResult {
+  // Line in the CSV, counting the header as line 1.
+  line: number
+  personId: string
+  name: string
+  outcome: ImportOutcome
+  // Why the row was not enrolled, in words staff can act on.
+  detail: string | null
+}
+
+export interface RosterImportReport {
+  enrolled: number
+  results: ImportResult[]
+  // Photos that matched no row in the CSV.
+  unusedPhotos: string[]
+}
+
+// Column headers recognized in the CSV, case-insensitively.
+export const IMPORT_COLUMNS = {
+  id: ['id', 'student id', 'person id'],
+  name: ['name', 'full name'],
+  className: ['class', 'class name'],
+  email: ['email', 'e-mail'],
+} as const
@@ -0,0 +1,47 @@
+// Consent to collect a person's face data, recorded when they enroll.
+export interface Consent {
+  // The person themselves, or a parent or guardian.
+  givenBy: string
+  givenAt: string
+  // Where the signed form is kept, or any conditions attached to it.
+  note: string
+}
+
+export interface Person {
+  id: string
+  name: string
+  template: number[]
+  sampleCount: number
+  enrolledAt: string
+  // Contact details from a roster import.
+  className?: string
+  email?: string
+  // Missing for people enrolled before consent was recorded.
+  consent?: Consent
+}
+
+// Kept when a person's biometric data is erased, as evidence that it was.
+export interface ErasureRecord {
+  personId: string
+  name: string
+  erasedAt: string
+  snapshotsDeleted: number
+  consent?: Consent
+}
+
+// Rosters enrolled before the server store existed were kept here. They carry
+// no consent record, so they are cleared rather than uploaded.
+const LEGACY_STORAGE_KEY = 'jud-attendance:roster'
+
+export function clearLegacyRoster(): void {
+  window.localStorage.removeItem(LEGACY_STORAGE_KEY)
+}
+
+// Re-enrolling an existing ID replaces that person's template.
+export function upsertPerson<T extends Pick<Person, 'id'>>(roster: T[], person: T): T[] {
+  return [...roster.filter(p => p.id !== person.id), person]
+}
+
+export function removePerson<T extends Pick<Person, 'id'>>(roster: T[], id: string): T[] {
+  return roster.filter(p => p.id !== id)
+}
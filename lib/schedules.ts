@@ -0,0 +1,34 @@
+// A class that meets every week on the same days and times. Sessions are
+// created from it for each meeting and opened and closed on time.
+export interface ClassSchedule {
+  id: string
+  className: string
+  // Days of the week it meets, 0 for Sunday to 6 for Saturday.
+  weekdays: number[]
+  startTime: string
+  endTime: string
+  // Arrivals up to this many minutes after the start are on time.
+  graceMinutes: number
+  // Arrivals more than this many minutes after the start are too late.
+  // Null keeps them late however late they are.
+  lateCutoffMinutes: number | null
+  // Minutes before the start that the session opens for check-in.
+  openBeforeMinutes: number
+  // People expected to attend; empty for everyone on the roster.
+  expectedIds: string[]
+  // Teacher in charge of the class, copied to each of its sessions.
+  teacherId?: string
+  createdAt: string
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export const DEFAULT_OPEN_BEFORE_MINUTES = 10
+
+/**
+ * Local calendar date of `date` as "YYYY-MM-DD", the form sessions use.
+ */
+export function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
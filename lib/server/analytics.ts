@@ -0,0 +1,114 @@
+import { AttendanceSession, sessionTime } from '@/lib/attendance'
+import {
+  AttendanceAnalytics,
+  CHRONIC_ABSENCE_RATE,
+  GroupSummary,
+  HistoryEntry,
+  PersonSummary,
+  StatusCounts,
+} from '@/lib/analytics'
+import { WEEKDAY_LABELS } from '@/lib/schedules'
+import { ExportRow, collectExport } from '@/lib/server/exports'
+
+const emptyCounts = (): StatusCounts => ({ sessions: 0, onTime: 0, late: 0, tooLate: 0, absent: 0, excused: 0, rate: 0 })
+
+function count(counts: StatusCounts, row: Pick<ExportRow, 'status'>) {
+  counts.sessions++
+  if (row.status === 'on-time') counts.onTime++
+  else if (row.status === 'late') counts.late++
+  else if (row.status === 'too-late') counts.tooLate++
+  else if (row.status === 'excused') counts.excused++
+  else counts.absent++
+  const counted = counts.sessions - counts.excused
+  counts.rate = counted > 0 ? (counted - counts.absent) / counted : 1
+}
+
+/**
+ * Sessions that never opened did not take place, and people may still
+ * arrive at one that is running, so only finished sessions are counted.
+ */
+const isFinished = (session: AttendanceSession, now: Date) =>
+  session.status === 'closed' ||
+  (session.status === 'open' && sessionTime(session, session.endTime) <= now)
+
+function lateStreaks(history: HistoryEntry[]) {
+  let current = 0
+  let longest = 0
+  for (const entry of history) {
+    current = entry.status === 'late' || entry.status === 'too-late' ? current + 1 : 0
+    longest = Math.max(longest, current)
+  }
+  return { lateStreak: current, longestLateStreak: longest }
+}
+
+function groupBy(rows: ExportRow[], keyOf: (row: ExportRow) => string, labelOf: (key: string) => string): GroupSummary[] {
+  const groups = new Map<string, GroupSummary>()
+  for (const row of rows) {
+    const key = keyOf(row)
+    const group = groups.get(key) ?? { key, label: labelOf(key), ...emptyCounts() }
+    count(group, row)
+    groups.set(key, group)
+  }
+  return Array.from(groups.values())
+}
+
+/**
+ * Summarizes attendance over finished sessions dated from `from` to `to`
+ * inclusive, from the same rows as the exports. With `teacherId`, only that
+ * teacher's sessions count.
+ */
+export async function collectAnalytics(
+  from: string,
+  to: string,
+  teacherId?: string,
+  now = new Date(),
+): Promise<AttendanceAnalytics> {
+  const data = await collectExport({ from, to, teacherId })
+  const sessions = new Map(data.sessions.filter(s => isFinished(s, now)).map(s => [s.id, s]))
+  // Export rows are already in session order.
+  const rows = data.rows.filter(row => sessions.has(row.sessionId))
+
+  const overall = emptyCounts()
+  const people = new Map<string, PersonSummary>()
+  for (const row of rows) {
+    count(overall, row)
+    const person = people.get(row.personId) ?? {
+      personId: row.personId,
+      name: row.name,
+      ...emptyCounts(),
+      lateStreak: 0,
+      longestLateStreak: 0,
+      history: [],
+    }
+    count(person, row)
+    person.history.push({
+      sessionId: row.sessionId,
+      className: row.className,
+      date: row.date,
+      startTime: sessions.get(row.sessionId)!.startTime,
+      status: row.status,
+      checkInTime: row.checkInTime,
+    })
+    people.set(row.personId, person)
+  }
+  const summaries = Array.from(people.values())
+    .map(person => ({ ...person, ...lateStreaks(person.history) }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  const weekdayOf = (row: ExportRow) => String(sessionTime(row, '00:00').getDay())
+
+  return {
+    from,
+    to,
+    sessionCount: sessions.size,
+    overall,
+    people: summaries,
+    classes: groupBy(rows, row => row.className, key => key)
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    weekdays: groupBy(rows, weekdayOf, key => WEEKDAY_LABELS[Number(key)])
+      .sort((a, b) => Number(a.key) - Number(b.key)),
+    chronicAbsentees: summaries
+      .filter(person => person.absent > 0 && 1 - person.rate >= CHRONIC_ABSENCE_RATE)
+      .sort((a, b) => b.absent - a.absent || a.rate - b.rate),
+  }
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { AuditEntry } from '@/lib/audit'
+import { CsvColumn, toCsvTable } from '@/lib/server/csv'
+import { Database, dataDir, readDb } from '@/lib/server/db'
+import { decrypt, encrypt } from '@/lib/server/encryption'
+import { HttpError } from '@/lib/server/http'
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'timestamp' | 'hasSnapshot'>
+
+export interface AuditQuery {
+  sessionId?: string
+  personId?: string
+}
+
+// A 256 pixel JPEG crop is well under this.
+const MAX_SNAPSHOT_BYTES = 256 * 1024
+const SNAPSHOT_PREFIX = 'data:image/jpeg;base64,'
+
+// Snapshots are kept as encrypted files beside the database rather than in
+// it, so the JSON document stays small enough to rewrite on every change.
+export const snapshotDir = () => path.join(dataDir(), 'snapshots')
+const snapshotFile = (entryId: string) => path.join(snapshotDir(), `${entryId}.enc`)
+// Written unencrypted before snapshots were sealed.
+const legacySnapshotFile = (entryId: string) => path.join(snapshotDir(), `${entryId}.jpg`)
+
+const COLUMNS: CsvColumn<AuditEntry>[] = [
+  { key: 'timestamp', header: 'Time' },
+  { key: 'actor', header: 'By' },
+  { key: 'automatic', header: 'Automatic' },
+  { key: 'action', header: 'Action' },
+  { key: 'sessionId', header: 'Session ID' },
+  { key: 'personId', header: 'Person ID' },
+  { key: 'oldValue', header: 'Old value' },
+  { key: 'newValue', header: 'New value' },
+  { key: 'reason', header: 'Reason' },
+  { key: 'id', header: 'Entry ID' },
+]
+
+/**
+ * Adds an entry to the audit log. Entries are never changed or removed
+ * afterwards.
+ */
+export function appendAudit(db: Database, entry: NewAuditEntry, hasSnapshot = false): AuditEntry {
+  const record: AuditEntry = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+    hasSnapshot,
+  }
+  db.auditLog.push(record)
+  return record
+}
+
+/**
+ * Decodes a JPEG data URL sent with a check-in.
+ */
+export function decodeSnapshot(dataUrl: string): Buffer {
+  if (!dataUrl.startsWith(SNAPSHOT_PREFIX)) {
+    throw new HttpError(400, '"snapshot" must be a JPEG data URL')
+  }
+  const bytes = Buffer.from(dataUrl.slice(SNAPSHOT_PREFIX.length), 'base64')
+  if (bytes.length === 0 || bytes.length > MAX_SNAPSHOT_BYTES) {
+    throw new HttpError(413, `"snapshot" must be at most ${MAX_SNAPSHOT_BYTES / 1024} KB`)
+  }
+  return bytes
+}
+
+export async function saveSnapshot(entryId: string, bytes: Uint8Array): Promise<void> {
+  await fs.mkdir(snapshotDir(), { recursive: true })
+  await fs.writeFile(snapshotFile(entryId), encrypt(bytes))
+}
+
+export async function readSnapshot(entryId: string): Promise<Buffer> {
+  try {
+    return decrypt(await fs.readFile(snapshotFile(entryId)))
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+  }
+  try {
+    return await fs.readFile(legacySnapshotFile(entryId))
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new HttpError(404, `No snapshot stored for ${entryId}`)
+    }
+    throw err
+  }
+}
+
+/**
+ * Deletes the snapshot stored under an ID, if any. Returns how many files
+ * were deleted.
+ */
+export async function deleteSnapshot(entryId: string): Promise<number> {
+  let deleted = 0
+  for (const file of [snapshotFile(entryId), legacySnapshotFile(entryId)]) {
+    try {
+      await fs.unlink(file)
+      deleted++
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    }
+  }
+  return deleted
+}
+
+// IDs of the audit entries whose snapshot is still on disk.
+const storedSnapshots = async (): Promise<Set<string>> => {
+  try {
+    return new Set((await fs.readdir(snapshotDir())).map(file => path.parse(file).name))
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return new Set()
+    throw err
+  }
+}
+
+/**
+ * Deletes every snapshot that may show the given person: those taken when
+ * they were recognized, and those of check-ins later reassigned to them.
+ * Returns how many were deleted.
+ */
+export async function deleteSnapshotsFor(db: Database, personId: string): Promise<number> {
+  const reassignedFrom = new Set(db.auditLog
+    .filter(entry => entry.action === 'reassign' && entry.newValue === personId)
+    .map(entry => `${entry.sessionId}/${entry.oldValue}`))
+  const entries = db.auditLog.filter(entry => entry.hasSnapshot && (
+    entry.personId === personId || reassignedFrom.has(`${entry.sessionId}/${entry.personId}`)))
+
+  let deleted = 0
+  for (const entry of entries) {
+    deleted += await deleteSnapshot(entry.id)
+  }
+  return deleted
+}
+
+export async function getAuditEntry(id: string): Promise<AuditEntry> {
+  const db = await readDb()
+  const entry = db.auditLog.find(e => e.id === id)
+  if (!entry) throw new HttpError(404, `Audit entry ${id} not found`)
+  return entry
+}
+
+/**
+ * Audit entries matching the query, newest first.
+ */
+export async function listAudit(query: AuditQuery): Promise<AuditEntry[]> {
+  const db = await readDb()
+  // Snapshots are purged after the retention period and on erasure, while
+  // the entries stay.
+  const stored = await storedSnapshots()
+  return db.auditLog
+    .filter(entry =>
+      (!query.sessionId || entry.sessionId === query.sessionId) &&
+      (!query.personId || entry.personId === query.personId))
+    .map(entry => ({ ...entry, hasSnapshot: entry.hasSnapshot && stored.has(entry.id) }))
+    .reverse()
+}
+
+export function auditToCsv(entries: AuditEntry[]): string {
+  return toCsvTable(COLUMNS, entries)
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { AttendanceSession } from '@/lib/attendance'
+import { Principal, Role, SESSION_COOKIE } from '@/lib/auth'
+import { readDb } from '@/lib/server/db'
+import { HttpError } from '@/lib/server/http'
+import { SESSION_TTL_MS, authSecret, missingSecretMessage, signToken, verifyToken } from '@/lib/server/tokens'
+
+const readCookie = (request: Request, name: string): string | null => {
+  const header = request.headers.get('cookie') ?? ''
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=')
+    if (key === name) return decodeURIComponent(value.join('='))
+  }
+  return null
+}
+
+/**
+ * Identifies the caller from the session cookie or a device token in the
+ * Authorization header. Middleware has already checked the signature; this
+ * also checks that the account or device still exists.
+ */
+export async function authenticate(request: Request): Promise<Principal> {
+  const secret = authSecret()
+  if (!secret) throw new HttpError(503, missingSecretMessage)
+  const bearer = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1]
+  const token = bearer ?? readCookie(request, SESSION_COOKIE)
+  const principal = token ? await verifyToken(token, secret) : null
+  if (!principal) throw new HttpError(401, 'Sign in to continue')
+
+  const db = await readDb()
+  const known = principal.role === 'kiosk'
+    ? db.devices.some(d => d.id === principal.sub)
+    : db.users.some(u => u.id === principal.sub && u.role === principal.role)
+  if (!known) throw new HttpError(401, 'This account or device no longer has access')
+  return principal
+}
+
+/**
+ * Authenticates the caller and checks they hold one of `roles`.
+ */
+export async function requireRole(request: Request, ...roles: Role[]): Promise<Principal> {
+  const principal = await authenticate(request)
+  if (!roles.includes(principal.role)) throw new HttpError(403, 'You do not have access to this')
+  return principal
+}
+
+// Admins manage every session; teachers the ones they are in charge of.
+export const canManage = (principal: Principal, session: Pick<AttendanceSession, 'teacherId'>) =>
+  principal.role === 'admin' || (principal.role === 'teacher' && session.teacherId === principal.sub)
+
+// Kiosks only see sessions open for check-in.
+export const canView = (principal: Principal, session: AttendanceSession) =>
+  canManage(principal, session) || (principal.role === 'kiosk' && session.status === 'open')
+
+export function assertCanManage(principal: Principal, session: AttendanceSession) {
+  if (!canManage(principal, session)) throw new HttpError(403, 'This session belongs to another teacher')
+}
+
+export function assertCanView(principal: Principal, session: AttendanceSession) {
+  if (!canView(principal, session)) throw new HttpError(403, 'You do not have access to this session')
+}
+
+/**
+ * Signs a token for `principal`, failing clearly when no secret is set.
+ */
+export async function issueToken(principal: Principal): Promise<string> {
+  const secret = authSecret()
+  if (!secret) throw new HttpError(503, missingSecretMessage)
+  return signToken(principal, secret)
+}
+
+/**
+ * Signs the user in on `response` with an HTTP-only session cookie.
+ */
+export async function setSessionCookie(response: NextResponse, principal: Principal): Promise<NextResponse> {
+  response.cookies.set(SESSION_COOKIE, await issueToken(principal), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_MS / 1000,
+  })
+  return response
+}
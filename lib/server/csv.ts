@@ -0,0 +1,79 @@
+export interface CsvColumn<T> {
+  key: keyof T
+  header: string
+}
+
+export interface CsvRow {
+  // 1-based line of the file the row starts on.
+  line: number
+  fields: string[]
+}
+
+const csvField = (value: unknown): string => {
+  let text = value === null || value === undefined ? '' : String(value)
+  // Spreadsheets run text starting with these as a formula; a leading quote
+  // keeps it plain text. Numbers are left as they are.
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Parses RFC 4180 CSV into rows of fields. Quoted fields may hold commas,
+ * line breaks and doubled quotes; blank lines are skipped. Each row keeps
+ * the line it started on, for reporting problems against the file.
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0].trim()) rows.push({ line: rowLine, fields: row })
+    row = []
+    field = ''
+  }
+  // A byte order mark from spreadsheet exports would end up in the first header.
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+      line++
+      rowLine = line
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) endRow()
+  return rows
+}
+
+/**
+ * Renders rows as RFC 4180 CSV with a header line, quoting only where needed.
+ */
+export function toCsvTable<T>(columns: CsvColumn<T>[], rows: T[]): string {
+  const lines = [
+    columns.map(c => csvField(c.header)).join(','),
+    ...rows.map(row => columns.map(c => csvField(row[c.key])).join(',')),
+  ]
+  return lines.join('\r\n') + '\r\n'
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { AttendanceOverride, CheckInRecord, AttendanceSession } from '@/lib/attendance'
+import { AuditEntry } from '@/lib/audit'
+import { KioskDevice, User } from '@/lib/auth'
+import { ErasureRecord, Person } from '@/lib/roster'
+import { ClassSchedule } from '@/lib/schedules'
+import { UnknownFace } from '@/lib/unknown-faces'
+import { Webhook, WebhookDelivery } from '@/lib/webhooks'
+
+// A person as written to disk: the template is sealed with the server's key.
+// Records from before encryption hold the plain array until next read.
+export type StoredPerson = Omit<Person, 'template'> & { template: string | number[] }
+
+// Password hashes never leave the server.
+export type StoredUser = User & { passwordHash: string }
+
+// An unknown face with its descriptor sealed like a template.
+export type StoredUnknownFace = UnknownFace & { descriptor: string }
+
+// The signing secret is only shown when the webhook is created.
+export type StoredWebhook = Webhook & { secret: string }
+
+// Everything the server persists, kept in a single JSON document so the app
+// runs without any outside database.
+export interface Database {
+  people: StoredPerson[]
+  sessions: AttendanceSession[]
+  checkIns: CheckInRecord[]
+  schedules: ClassSchedule[]
+  overrides: AttendanceOverride[]
+  auditLog: AuditEntry[]
+  erasures: ErasureRecord[]
+  users: StoredUser[]
+  devices: KioskDevice[]
+  unknownFaces: StoredUnknownFace[]
+  webhooks: StoredWebhook[]
+  webhookDeliveries: WebhookDelivery[]
+}
+
+const emptyDatabase = (): Database => ({
+  people: [],
+  sessions: [],
+  checkIns: [],
+  schedules: [],
+  overrides: [],
+  auditLog: [],
+  erasures: [],
+  users: [],
+  devices: [],
+  unknownFaces: [],
+  webhooks: [],
+  webhookDeliveries: [],
+})
+
+export const dataDir = () => process.env.ATTENDANCE_DATA_DIR ?? path.join(process.cwd(), 'data')
+
+const dbFile = () => path.join(dataDir(), 'attendance.json')
+
+// Writes are chained on this promise so concurrent requests never interleave
+// a read-modify-write cycle.
+let queue: Promise<unknown> = Promise.resolve()
+
+const load = async (): Promise<Database> => {
+  try {
+    const raw = await fs.readFile(dbFile(), 'utf8')
+    return { ...emptyDatabase(), ...(JSON.parse(raw) as Partial<Database>) }
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return emptyDatabase()
+    throw err
+  }
+}
+
+const save = async (db: Database) => {
+  await fs.mkdir(dataDir(), { recursive: true })
+  // Write to a temporary file and rename so a crash never leaves half a file.
+  const tmp = `${dbFile()}.${process.pid}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(db, null, 2))
+  await fs.rename(tmp, dbFile())
+}
+
+export function readDb(): Promise<Database> {
+  const result = queue.then(load)
+  queue = result.catch(() => undefined)
+  return result
+}
+
+/**
+ * Runs `mutate` against the current database and persists the result. The
+ * callback may change `db` in place; its return value is passed through.
+ */
+export function updateDb<T>(mutate: (db: Database) => T | Promise<T>): Promise<T> {
+  const result = queue.then(async () => {
+    const db = await load()
+    const value = await mutate(db)
+    await save(db)
+    return value
+  })
+  queue = result.catch(() => undefined)
+  return result
+}
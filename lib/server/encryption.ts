@@ -0,0 +1,51 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+import { HttpError } from '@/lib/server/http'
+
+// Biometric data (face templates and face snapshots) is sealed with
+// AES-256-GCM under a key configured on this server only. Generate one with
+// `openssl rand -base64 32`.
+const KEY_VARIABLE = 'ATTENDANCE_ENCRYPTION_KEY'
+const ALGORITHM = 'aes-256-gcm'
+const IV_BYTES = 12
+const TAG_BYTES = 16
+// Prefix marking sealed values stored inside the JSON database.
+const SEALED_PREFIX = 'enc:v1:'
+
+const encryptionKey = (): Buffer => {
+  const configured = process.env[KEY_VARIABLE]
+  if (!configured) {
+    throw new HttpError(503, `Biometric data is unavailable: set ${KEY_VARIABLE} to a base64 encoded 32 byte key`)
+  }
+  const key = Buffer.from(configured, 'base64')
+  if (key.length !== 32) throw new HttpError(503, `${KEY_VARIABLE} must decode to exactly 32 bytes`)
+  return key
+}
+
+/**
+ * Encrypts `plain` into IV, authentication tag and ciphertext, in that order.
+ */
+export function encrypt(plain: Uint8Array): Buffer {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(plain), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext])
+}
+
+export function decrypt(sealed: Buffer): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), sealed.subarray(0, IV_BYTES))
+  decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES))
+  try {
+    return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()])
+  } catch {
+    throw new HttpError(500, `Stored biometric data could not be decrypted; check ${KEY_VARIABLE}`)
+  }
+}
+
+export function sealJson(value: unknown): string {
+  return SEALED_PREFIX + encrypt(Buffer.from(JSON.stringify(value))).toString('base64')
+}
+
+export function openJson<T>(sealed: string): T {
+  if (!sealed.startsWith(SEALED_PREFIX)) throw new HttpError(500, 'Stored value is not sealed')
+  return JSON.parse(decrypt(Buffer.from(sealed.slice(SEALED_PREFIX.length), 'base64')).toString('utf8')) as T
+}
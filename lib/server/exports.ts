@@ -0,0 +1,121 @@
+import ExcelJS from 'exceljs'
+import { AttendanceSession, AttendanceStatus, attendanceStatus, isExpected } from '@/lib/attendance'
+import { CsvColumn, toCsvTable } from '@/lib/server/csv'
+import { readDb } from '@/lib/server/db'
+import { HttpError } from '@/lib/server/http'
+import { syncSchedules } from '@/lib/server/schedules'
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+export interface ExportQuery {
+  sessionId?: string
+  // Inclusive range of session dates, "YYYY-MM-DD".
+  from?: string
+  to?: string
+  // Only sessions this teacher is in charge of.
+  teacherId?: string
+}
+
+export interface ExportRow {
+  sessionId: string
+  className: string
+  date: string
+  personId: string
+  name: string
+  status: AttendanceStatus
+  checkInTime: string | null
+  confidence: number | null
+}
+
+export interface AttendanceExport {
+  sessions: AttendanceSession[]
+  rows: ExportRow[]
+}
+
+const COLUMNS: CsvColumn<ExportRow>[] = [
+  { key: 'sessionId', header: 'Session ID' },
+  { key: 'className', header: 'Class' },
+  { key: 'date', header: 'Date' },
+  { key: 'personId', header: 'Person ID' },
+  { key: 'name', header: 'Name' },
+  { key: 'status', header: 'Status' },
+  { key: 'checkInTime', header: 'Check-in time' },
+  { key: 'confidence', header: 'Confidence' },
+]
+
+/**
+ * Gathers one row per person per matching session. Everyone expected at the
+ * session is listed, so people who never checked in show up as absent.
+ * Sessions that never opened did not take place and are left out.
+ */
+export async function collectExport(query: ExportQuery): Promise<AttendanceExport> {
+  await syncSchedules()
+  const db = await readDb()
+
+  let sessions: AttendanceSession[]
+  if (query.sessionId) {
+    const session = db.sessions.find(s => s.id === query.sessionId)
+    if (!session) throw new HttpError(404, `Session ${query.sessionId} not found`)
+    sessions = [session]
+  } else if (query.from && query.to) {
+    sessions = db.sessions.filter(s => s.date >= query.from! && s.date <= query.to!)
+  } else {
+    throw new HttpError(400, 'Either "sessionId" or both "from" and "to" are required')
+  }
+  sessions = sessions.filter(s => s.status === 'open' || s.status === 'closed')
+  if (query.teacherId) sessions = sessions.filter(s => s.teacherId === query.teacherId)
+  sessions.sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`))
+
+  const rows: ExportRow[] = []
+  for (const session of sessions) {
+    const checkIns = db.checkIns.filter(c => c.sessionId === session.id)
+    const overrides = db.overrides.filter(o => o.sessionId === session.id)
+    // People removed from the roster since still appear where they checked in.
+    const people = new Map(db.people.filter(p => isExpected(session, p.id)).map(p => [p.id, p.name]))
+    checkIns.forEach(c => { if (!people.has(c.personId)) people.set(c.personId, c.name) })
+
+    for (const [personId, name] of Array.from(people)) {
+      const checkIn = checkIns.find(c => c.personId === personId)
+      rows.push({
+        sessionId: session.id,
+        className: session.className,
+        date: session.date,
+        personId,
+        name,
+        status: attendanceStatus(session, checkIn, overrides.find(o => o.personId === personId)),
+        checkInTime: checkIn?.timestamp ?? null,
+        confidence: checkIn ? Number(checkIn.confidence.toFixed(4)) : null,
+      })
+    }
+  }
+  return { sessions, rows }
+}
+
+export function toCsv({ rows }: AttendanceExport): string {
+  return toCsvTable(COLUMNS, rows)
+}
+
+export async function toXlsx({ rows }: AttendanceExport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook()
+  const sheet = workbook.addWorksheet('Attendance')
+  sheet.columns = COLUMNS.map(c => ({ header: c.header, key: c.key, width: c.key === 'sessionId' ? 38 : 16 }))
+  sheet.getRow(1).font = { bold: true }
+  for (const row of rows) {
+    sheet.addRow({ ...row, checkInTime: row.checkInTime ? new Date(row.checkInTime) : null })
+  }
+  sheet.getColumn('checkInTime').numFmt = 'yyyy-mm-dd hh:mm:ss'
+  return Buffer.from(await workbook.xlsx.writeBuffer())
+}
+
+export function toJson({ sessions, rows }: AttendanceExport) {
+  return {
+    exportedAt: new Date().toISOString(),
+    sessions: sessions.map(session => ({
+      ...session,
+      records: rows
+        .filter(row => row.sessionId === session.id)
+        .map(({ personId, name, status, checkInTime, confidence }) => ({ personId, name, status, checkInTime, confidence })),
+    })),
+  }
+}
@@ -0,0 +1,181 @@
+import type { Tensor3D, Tensor4D } from '@tensorflow/tfjs-node'
+import type { BlazeFaceModel } from '@tensorflow-models/blazeface'
+import type { FaceLandmarksDetector } from '@tensorflow-models/face-landmarks-detection'
+import { extractDescriptor } from '@/lib/face-template'
+import { DEFAULT_MIN_QUALITY, FaceQuality, assessQuality } from '@/lib/face-quality'
+import { matchFace } from '@/lib/recognition'
+import { Person } from '@/lib/roster'
+import { ALIGNED_SIZE, alignFace, cropToFrame } from '@/lib/face-alignment'
+import { FaceDetection } from '@/lib/pipeline-protocol'
+import { HttpError } from '@/lib/server/http'
+
+type TensorFlow = typeof import('@tensorflow/tfjs-node')
+
+// Group photos hold far more faces than a webcam frame.
+const MAX_FACES = 50
+
+export interface FaceBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ServerFace {
+  box: FaceBox
+  probability: number
+  descriptor: number[] | null
+  quality: FaceQuality | null
+  // JPEG of the aligned crop, kept for faces good enough to be matched.
+  snapshot: Uint8Array | null
+}
+
+export interface RecognizedFace extends ServerFace {
+  personId: string | null
+  name: string | null
+  similarity: number | null
+}
+
+interface Models {
+  tf: TensorFlow
+  blazefaceModel: BlazeFaceModel
+  landmarkModel: FaceLandmarksDetector
+}
+
+let models: Promise<Models> | null = null
+
+// Loaded once per server process and shared by every request. Everything
+// TensorFlow is imported lazily so the rest of the API still works on a
+// server where the tfjs-node native binding is missing, and so the browser
+// model packages are never evaluated while Next.js collects route data.
+const loadModels = (): Promise<Models> => {
+  if (!models) {
+    models = (async () => {
+      let tf: TensorFlow
+      try {
+        tf = await import('@tensorflow/tfjs-node')
+      } catch (err) {
+        console.error('Error loading tfjs-node:', err)
+        throw new HttpError(503, 'Server-side recognition is unavailable: tfjs-node could not be loaded')
+      }
+      await tf.ready()
+      const blazeface = await import('@tensorflow-models/blazeface')
+      const faceLandmarksDetection = await import('@tensorflow-models/face-landmarks-detection')
+      const blazefaceModel = await blazeface.load({ maxFaces: MAX_FACES })
+      const landmarkModel = await faceLandmarksDetection.createDetector(
+        faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh,
+        {
+          runtime: 'tfjs',
+          refineLandmarks: true,
+          maxFaces: 1
+        }
+      )
+      return { tf, blazefaceModel, landmarkModel }
+    })()
+    models.catch(() => { models = null })
+  }
+  return models
+}
+
+// Same aligned crop as the browser pipeline; parts outside the image come out
+// black.
+const cropFace = (tf: TensorFlow, image: Tensor3D, face: FaceDetection): Tensor3D => {
+  const [a, b, c, d, e, f] = cropToFrame(alignFace(face))
+  return tf.tidy(() => {
+    const batch = tf.expandDims<Tensor4D>(image.toFloat(), 0)
+    const crop = tf.image.transform(batch, [[a, b, c, d, e, f, 0, 0]], 'bilinear', 'constant', 0, [ALIGNED_SIZE, ALIGNED_SIZE])
+    return tf.squeeze<Tensor3D>(crop, [0]).round().toInt()
+  })
+}
+
+const toRgba = async (rgb: Tensor3D) => {
+  const [height, width] = rgb.shape
+  const source = await rgb.data()
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0, j = 0; i < source.length; i += 3, j += 4) {
+    data[j] = source[i]
+    data[j + 1] = source[i + 1]
+    data[j + 2] = source[i + 2]
+    data[j + 3] = 255
+  }
+  return { width, height, data }
+}
+
+/**
+ * Decodes an encoded image (JPEG, PNG, BMP or GIF) and runs detection,
+ * cropping, quality scoring and descriptor extraction on every face in it.
+ */
+export async function detectFaces(image: Uint8Array, minQuality = DEFAULT_MIN_QUALITY): Promise<ServerFace[]> {
+  const { tf, blazefaceModel, landmarkModel } = await loadModels()
+
+  let decoded: Tensor3D
+  try {
+    // GIFs decode to a stack of frames; only the first is used.
+    const tensor = tf.node.decodeImage(image, 3, 'int32', false)
+    decoded = tensor.rank === 4 ? tf.squeeze<Tensor3D>(tensor, [0]) : tensor as Tensor3D
+    if (tensor !== decoded) tensor.dispose()
+  } catch (err) {
+    throw new HttpError(422, `Could not decode image: ${err}`)
+  }
+
+  try {
+    const predictions = await blazefaceModel.estimateFaces(decoded, false) as unknown as FaceDetection[]
+    const faces: ServerFace[] = []
+    for (const face of predictions) {
+      const crop = cropFace(tf, decoded, face)
+      try {
+        const landmarks = await landmarkModel.estimateFaces(crop)
+        const pixels = landmarks.length > 0 ? await toRgba(crop) : null
+        const width = face.bottomRight[0] - face.topLeft[0]
+        const descriptor = pixels ? extractDescriptor(pixels, landmarks[0].keypoints) : null
+        const quality = pixels ? assessQuality(pixels, landmarks[0].keypoints, width, minQuality) : null
+        const snapshot = descriptor && quality?.passed ? await tf.node.encodeJpeg(crop) : null
+        faces.push({
+          box: {
+            x: face.topLeft[0],
+            y: face.topLeft[1],
+            width,
+            height: face.bottomRight[1] - face.topLeft[1],
+          },
+          probability: face.probability[0],
+          descriptor,
+          quality,
+          snapshot,
+        })
+      } finally {
+        crop.dispose()
+      }
+    }
+    return faces
+  } finally {
+    decoded.dispose()
+  }
+}
+
+/**
+ * Matches each detected face against the roster. Faces below the quality
+ * minimum are reported unknown, and a person matched by several faces keeps
+ * only the most similar one.
+ */
+export function recognizeFaces(faces: ServerFace[], roster: Person[], threshold: number): RecognizedFace[] {
+  const results: RecognizedFace[] = faces.map(face => {
+    const match = face.descriptor && face.quality?.passed ? matchFace(face.descriptor, roster, threshold) : null
+    return {
+      ...face,
+      personId: match?.person.id ?? null,
+      name: match?.person.name ?? null,
+      similarity: match?.similarity ?? null,
+    }
+  })
+
+  const best = new Map<string, RecognizedFace>()
+  for (const result of results) {
+    if (!result.personId) continue
+    const current = best.get(result.personId)
+    if (!current || (result.similarity ?? 0) > (current.similarity ?? 0)) best.set(result.personId, result)
+  }
+  return results.map(result =>
+    result.personId && best.get(result.personId) !== result
+      ? { ...result, personId: null, name: null, similarity: null }
+      : result)
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+/**
+ * Wraps a route handler so thrown HttpErrors become JSON error responses and
+ * anything unexpected becomes a logged 500.
+ */
+export function handleRoute<Args extends unknown[]>(handler: (...args: Args) => Promise<Response>) {
+  return async (...args: Args): Promise<Response> => {
+    try {
+      return await handler(...args)
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return NextResponse.json({ error: err.message }, { status: err.status })
+      }
+      console.error('Unhandled API error:', err)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  }
+}
+
+export async function readJson(request: Request): Promise<Record<string, unknown>> {
+  try {
+    const body = await request.json()
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body as Record<string, unknown>
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new HttpError(400, 'Request body must be a JSON object')
+}
+
+export function requireString(body: Record<string, unknown>, key: string, pattern?: RegExp): string {
+  const value = body[key]
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${key}" is required`)
+  }
+  if (pattern && !pattern.test(value)) {
+    throw new HttpError(400, `"${key}" is not in the expected format`)
+  }
+  return value.trim()
+}
+
+export function requireNumber(body: Record<string, unknown>, key: string): number {
+  const value = body[key]
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new HttpError(400, `"${key}" must be a number`)
+  }
+  return value
+}
@@ -0,0 +1,120 @@
+import { attendanceStatus, checkInStatus, isExpected } from '@/lib/attendance'
+import { Principal } from '@/lib/auth'
+import { DeviceReport, DeviceStatus, MonitorSnapshot, RoomStatus, SILENT_AFTER_MS } from '@/lib/monitoring'
+import { readDb } from '@/lib/server/db'
+import { syncSchedules } from '@/lib/server/schedules'
+
+// Devices not heard from in this long are dropped from the monitor.
+const FORGET_AFTER_MS = 12 * 60 * 60_000
+const RECENT_ARRIVALS = 5
+
+type DeviceRecord = Omit<DeviceStatus, 'silent'>
+
+interface MonitorState {
+  devices: Map<string, DeviceRecord>
+  listeners: Set<() => void>
+}
+
+// Live status only matters while the server runs, so it is kept in memory
+// rather than written to the database on every report. It hangs off
+// globalThis because route handlers can each get their own copy of this
+// module, and the stream has to hear from all of them.
+const state = globalThis as typeof globalThis & { attendanceMonitor?: MonitorState }
+const { devices, listeners } = state.attendanceMonitor ??= { devices: new Map(), listeners: new Set() }
+
+/**
+ * Tells open monitor streams that something they show has changed.
+ */
+export function notifyMonitors(): void {
+  listeners.forEach(listener => listener())
+}
+
+/**
+ * Calls `listener` whenever a device reports or attendance changes. Returns
+ * a function that stops it.
+ */
+export function subscribeMonitor(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function reportStatus(principal: Principal, report: DeviceReport, now = new Date()): DeviceStatus {
+  const record: DeviceRecord = {
+    ...report,
+    name: principal.name,
+    role: principal.role,
+    lastSeen: now.toISOString(),
+  }
+  devices.set(`${principal.sub}:${report.clientId}`, record)
+  notifyMonitors()
+  return { ...record, silent: false }
+}
+
+/**
+ * Every open session with its attendance so far and the devices reporting
+ * for it, plus the devices reporting without one.
+ */
+export async function monitorSnapshot(now = new Date()): Promise<MonitorSnapshot> {
+  await syncSchedules(now)
+  const db = await readDb()
+
+  const statuses: DeviceStatus[] = []
+  devices.forEach((record, key) => {
+    const age = now.getTime() - new Date(record.lastSeen).getTime()
+    if (age > FORGET_AFTER_MS) devices.delete(key)
+    else statuses.push({ ...record, silent: age > SILENT_AFTER_MS })
+  })
+  statuses.sort((a, b) => a.name.localeCompare(b.name))
+
+  const rooms = db.sessions
+    .filter(session => session.status === 'open')
+    .sort((a, b) => a.startTime.localeCompare(b.startTime) || a.className.localeCompare(b.className))
+    .map((session): RoomStatus => {
+      const checkIns = db.checkIns.filter(c => c.sessionId === session.id)
+      const overrides = db.overrides.filter(o => o.sessionId === session.id)
+      // Everyone expected, and anyone else who turned up.
+      const people = new Set([
+        ...db.people.map(p => p.id).filter(id => isExpected(session, id)),
+        ...checkIns.map(c => c.personId),
+      ])
+      let present = 0
+      let late = 0
+      people.forEach(personId => {
+        const status = attendanceStatus(
+          session,
+          checkIns.find(c => c.personId === personId),
+          overrides.find(o => o.personId === personId),
+        )
+        if (status === 'on-time' || status === 'late' || status === 'too-late') present++
+        if (status === 'late' || status === 'too-late') late++
+      })
+      return {
+        sessionId: session.id,
+        className: session.className,
+        teacher: db.users.find(u => u.id === session.teacherId)?.name ?? null,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        expected: session.expectedIds?.length ?? db.people.length,
+        present,
+        late,
+        recentArrivals: [...checkIns]
+          .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+          .slice(0, RECENT_ARRIVALS)
+          .map(c => ({
+            personId: c.personId,
+            name: c.name,
+            timestamp: c.timestamp,
+            status: c.status ?? checkInStatus(session, c.timestamp),
+          })),
+        devices: statuses.filter(device => device.sessionId === session.id),
+      }
+    })
+
+  const roomIds = new Set(rooms.map(room => room.sessionId))
+  return {
+    rooms,
+    idleDevices: statuses.filter(device => !device.sessionId || !roomIds.has(device.sessionId)),
+  }
+}
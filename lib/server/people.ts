@@ -0,0 +1,78 @@
+import { extendTemplate } from '@/lib/face-template'
+import { Consent, ErasureRecord, Person, removePerson, upsertPerson } from '@/lib/roster'
+import { deleteSnapshotsFor } from '@/lib/server/audit'
+import { Database, StoredPerson, readDb, updateDb } from '@/lib/server/db'
+import { openJson, sealJson } from '@/lib/server/encryption'
+import { HttpError } from '@/lib/server/http'
+
+const toStored = (person: Person): StoredPerson => ({ ...person, template: sealJson(person.template) })
+
+const fromStored = (stored: StoredPerson): Person => ({
+  ...stored,
+  template: typeof stored.template === 'string' ? openJson<number[]>(stored.template) : stored.template,
+})
+
+/**
+ * The enrolled people with their templates decrypted. Templates stored
+ * before encryption was introduced are sealed on the way.
+ */
+export async function listPeople(): Promise<Person[]> {
+  const db = await readDb()
+  if (db.people.some(p => Array.isArray(p.template))) {
+    await updateDb(current => {
+      current.people = current.people.map(p => Array.isArray(p.template) ? toStored(fromStored(p)) : p)
+    })
+  }
+  return db.people.map(fromStored)
+}
+
+export async function savePerson(person: Person & { consent: Consent }): Promise<Person> {
+  return updateDb(db => storePerson(db, person))
+}
+
+/**
+ * Enrolls a person within a database update, replacing anyone with the same
+ * ID.
+ */
+export function storePerson(db: Database, person: Person & { consent: Consent }): Person {
+  db.people = upsertPerson(db.people, toStored(person))
+  return person
+}
+
+/**
+ * Folds more face samples into an enrolled person's template.
+ */
+export function addTemplateSamples(db: Database, personId: string, descriptors: number[][]): Person {
+  const index = db.people.findIndex(p => p.id === personId)
+  if (index < 0) throw new HttpError(404, `Person ${personId} not found`)
+  const person = fromStored(db.people[index])
+  const updated: Person = {
+    ...person,
+    template: extendTemplate(person.template, person.sampleCount, descriptors),
+    sampleCount: person.sampleCount + descriptors.length,
+  }
+  db.people[index] = toStored(updated)
+  return updated
+}
+
+/**
+ * Removes a person and erases their biometric data: the face template and
+ * every face snapshot that may show them. Their check-ins, manual changes
+ * and audit entries are kept, as is a record of the erasure.
+ */
+export async function deletePerson(id: string): Promise<ErasureRecord> {
+  return updateDb(async db => {
+    const person = db.people.find(p => p.id === id)
+    if (!person) throw new HttpError(404, `Person ${id} not found`)
+    db.people = removePerson(db.people, id)
+    const erasure: ErasureRecord = {
+      personId: id,
+      name: person.name,
+      erasedAt: new Date().toISOString(),
+      snapshotsDeleted: await deleteSnapshotsFor(db, id),
+      consent: person.consent,
+    }
+    db.erasures.push(erasure)
+    return erasure
+  })
+}
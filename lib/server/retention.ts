@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { snapshotDir } from '@/lib/server/audit'
+import { readDb, updateDb } from '@/lib/server/db'
+
+// Face snapshots and unknown faces older than this many days are deleted.
+// Set SNAPSHOT_RETENTION_DAYS to change it.
+export const DEFAULT_RETENTION_DAYS = 30
+
+// Purges run at most this often when triggered by new check-ins.
+const PURGE_INTERVAL_MS = 60 * 60_000
+
+let lastPurge = 0
+
+export function retentionDays(): number {
+  const configured = process.env.SNAPSHOT_RETENTION_DAYS
+  const days = configured ? Number(configured) : DEFAULT_RETENTION_DAYS
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS
+}
+
+/**
+ * Deletes face snapshots older than the retention period, and unknown faces
+ * left unreviewed that long. The audit entries the snapshots belong to are
+ * kept. Returns how many snapshots were deleted.
+ */
+export async function purgeExpiredSnapshots(now = new Date()): Promise<number> {
+  lastPurge = now.getTime()
+  const cutoff = now.getTime() - retentionDays() * 24 * 60 * 60_000
+  const expired = new Date(cutoff).toISOString()
+  if ((await readDb()).unknownFaces.some(face => face.seenAt < expired)) {
+    await updateDb(db => {
+      db.unknownFaces = db.unknownFaces.filter(face => face.seenAt >= expired)
+    })
+  }
+  let files: string[]
+  try {
+    files = await fs.readdir(snapshotDir())
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return 0
+    throw err
+  }
+
+  let deleted = 0
+  for (const file of files) {
+    const filePath = path.join(snapshotDir(), file)
+    try {
+      if ((await fs.stat(filePath)).mtimeMs < cutoff) {
+        await fs.unlink(filePath)
+        deleted++
+      }
+    } catch (err) {
+      // Deleted by a concurrent purge or erasure.
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    }
+  }
+  return deleted
+}
+
+/**
+ * Purges expired snapshots unless that was done recently, so the retention
+ * period holds without a scheduled job.
+ */
+export async function purgeIfDue(now = new Date()): Promise<void> {
+  if (now.getTime() - lastPurge < PURGE_INTERVAL_MS) return
+  await purgeExpiredSnapshots(now)
+}
@@ -0,0 +1,194 @@
+import JSZip from 'jszip'
+import path from 'path'
+import { Readable } from 'stream'
+import { buildTemplate } from '@/lib/face-template'
+import { Consent } from '@/lib/roster'
+import { IMPORT_COLUMNS, ImportResult, RosterImportReport } from '@/lib/roster-import'
+import { parseCsv } from '@/lib/server/csv'
+import { detectFaces } from '@/lib/server/face-pipeline'
+import { HttpError } from '@/lib/server/http'
+import { savePerson } from '@/lib/server/people'
+
+const PHOTO_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.bmp', '.gif'])
+const MAX_ROWS = 1000
+// Limits on what zip archives unpack to, so a small upload cannot expand
+// into gigabytes.
+const MAX_PHOTO_BYTES = 20 * 1024 * 1024
+const MAX_UNZIPPED_BYTES = 500 * 1024 * 1024
+
+export interface RosterImport {
+  csv: string
+  // Reference photos named by person ID, as image files or zip archives of
+  // them.
+  photos: File[]
+  consent: Consent
+  minQuality?: number
+}
+
+// Photo file name without folders or extension, matched case-insensitively.
+const photoKey = (fileName: string) => path.basename(fileName, path.extname(fileName)).toLowerCase()
+
+const isPhoto = (fileName: string) =>
+  PHOTO_EXTENSIONS.has(path.extname(fileName).toLowerCase()) &&
+  !fileName.startsWith('__MACOSX/') &&
+  !path.basename(fileName).startsWith('.')
+
+/**
+ * Inflates a zip entry, or returns null as soon as it grows past `limit`
+ * bytes. The sizes an archive records for its entries are not trusted.
+ */
+async function inflate(entry: JSZip.JSZipObject, limit: number): Promise<Uint8Array | null> {
+  const chunks: Buffer[] = []
+  let size = 0
+  // Leaving the loop early destroys the stream, which stops jszip inflating.
+  for await (const chunk of new Readable().wrap(entry.nodeStream('nodebuffer'))) {
+    size += chunk.length
+    if (size > limit) return null
+    chunks.push(chunk)
+  }
+  return new Uint8Array(Buffer.concat(chunks))
+}
+
+/**
+ * Collects the uploaded photos by person ID, unpacking zip archives. The
+ * first photo for an ID wins.
+ */
+async function readPhotos(files: File[]): Promise<Map<string, { fileName: string; bytes: Uint8Array }>> {
+  const photos = new Map<string, { fileName: string; bytes: Uint8Array }>()
+  let unzipped = 0
+  const add = (fileName: string, bytes: Uint8Array) => {
+    if (!photos.has(photoKey(fileName))) photos.set(photoKey(fileName), { fileName, bytes })
+  }
+  for (const file of files) {
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    if (path.extname(file.name).toLowerCase() === '.zip') {
+      let archive: JSZip
+      try {
+        archive = await JSZip.loadAsync(bytes)
+      } catch {
+        throw new HttpError(422, `${file.name} is not a readable zip archive`)
+      }
+      for (const entry of Object.values(archive.files)) {
+        if (entry.dir || !isPhoto(entry.name)) continue
+        const budget = Math.min(MAX_PHOTO_BYTES, MAX_UNZIPPED_BYTES - unzipped)
+        const photo = await inflate(entry, budget)
+        if (!photo) {
+          throw new HttpError(413, budget < MAX_PHOTO_BYTES
+            ? `Zip archives may unpack to at most ${MAX_UNZIPPED_BYTES / 1024 / 1024} MB of photos`
+            : `${entry.name} unpacks to more than ${MAX_PHOTO_BYTES / 1024 / 1024} MB`)
+        }
+        unzipped += photo.length
+        add(entry.name, photo)
+      }
+    } else if (isPhoto(file.name)) {
+      add(file.name, bytes)
+    }
+  }
+  return photos
+}
+
+// Index of each known column in the header row, or -1 when absent.
+const findColumns = (header: string[]) => {
+  const normalized = header.map(h => h.trim().toLowerCase())
+  const find = (names: readonly string[]) => normalized.findIndex(h => names.includes(h))
+  const columns = {
+    id: find(IMPORT_COLUMNS.id),
+    name: find(IMPORT_COLUMNS.name),
+    className: find(IMPORT_COLUMNS.className),
+    email: find(IMPORT_COLUMNS.email),
+  }
+  if (columns.id < 0 || columns.name < 0) {
+    throw new HttpError(400, 'The CSV needs a header row with at least "id" and "name" columns')
+  }
+  return columns
+}
+
+/**
+ * Enrolls everyone in a roster CSV from one reference photo each. Every
+ * photo goes through the same detection, quality check and template
+ * extraction as a server-side recognition, and must show exactly one face.
+ * Rows that fail are reported and skipped; the rest are enrolled, replacing
+ * any earlier template for the same ID.
+ */
+export async function importRoster({ csv, photos: files, consent, minQuality }: RosterImport): Promise<RosterImportReport> {
+  const [header, ...rows] = parseCsv(csv)
+  if (!header) throw new HttpError(400, 'The CSV is empty')
+  if (rows.length > MAX_ROWS) throw new HttpError(413, `Imports are limited to ${MAX_ROWS} people`)
+  const columns = findColumns(header.fields)
+  const photos = await readPhotos(files)
+  const used = new Set<string>()
+
+  const results: ImportResult[] = []
+  for (const row of rows) {
+    const cell = (column: number) => (column >= 0 ? row.fields[column]?.trim() ?? '' : '')
+    const personId = cell(columns.id)
+    const name = cell(columns.name)
+    const result = (outcome: ImportResult['outcome'], detail: string | null = null) =>
+      results.push({ line: row.line, personId, name, outcome, detail })
+
+    if (!personId || !name) {
+      result('invalid-row', 'Both an ID and a name are required')
+      continue
+    }
+    if (used.has(personId.toLowerCase())) {
+      result('invalid-row', 'This ID appears more than once in the CSV')
+      continue
+    }
+    used.add(personId.toLowerCase())
+
+    const photo = photos.get(personId.toLowerCase())
+    if (!photo) {
+      result('no-photo', `No photo named ${personId}.jpg or similar`)
+      continue
+    }
+
+    let faces
+    try {
+      faces = await detectFaces(photo.bytes, minQuality)
+    } catch (err) {
+      // Anything but an undecodable photo, such as missing models, stops
+      // the whole import.
+      if (!(err instanceof HttpError) || err.status !== 422) throw err
+      result('unreadable-photo', `${photo.fileName} could not be read as an image`)
+      continue
+    }
+    if (faces.length === 0) {
+      result('no-face', `No face found in ${photo.fileName}`)
+      continue
+    }
+    if (faces.length > 1) {
+      result('multiple-faces', `${faces.length} faces found in ${photo.fileName}; crop it to one person`)
+      continue
+    }
+    const [face] = faces
+    if (!face.descriptor || !face.quality) {
+      result('low-quality', `Facial landmarks could not be read in ${photo.fileName}`)
+      continue
+    }
+    if (!face.quality.passed) {
+      const hint = face.quality.hint ? ` (${face.quality.hint})` : ''
+      result('low-quality', `Quality ${(face.quality.score * 100).toFixed(0)}% is below the minimum${hint}`)
+      continue
+    }
+
+    await savePerson({
+      id: personId,
+      name,
+      template: buildTemplate([face.descriptor]),
+      sampleCount: 1,
+      enrolledAt: new Date().toISOString(),
+      className: cell(columns.className) || undefined,
+      email: cell(columns.email) || undefined,
+      consent,
+    })
+    result('enrolled')
+  }
+
+  return {
+    enrolled: results.filter(r => r.outcome === 'enrolled').length,
+    results,
+    unusedPhotos: Array.from(photos.entries())
+      .filter(([key]) => !used.has(key))
+      .map(([, photo]) => photo.fileName),
+  }
+}
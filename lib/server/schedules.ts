@@ -0,0 +1,156 @@
+import { randomUUID } from 'crypto'
+import { AttendanceSession, isExpected, sessionTime } from '@/lib/attendance'
+import { SYSTEM_ACTOR } from '@/lib/audit'
+import { ClassSchedule, localDate } from '@/lib/schedules'
+import { appendAudit } from '@/lib/server/audit'
+import { Database, readDb, updateDb } from '@/lib/server/db'
+import { HttpError } from '@/lib/server/http'
+import { queueWebhookEvent, resumeDeliveries, webhookSession } from '@/lib/server/webhooks'
+
+export type NewSchedule = Omit<ClassSchedule, 'id' | 'createdAt'>
+
+export async function listSchedules(): Promise<ClassSchedule[]> {
+  const db = await readDb()
+  return [...db.schedules].sort((a, b) => a.className.localeCompare(b.className))
+}
+
+export async function createSchedule(input: NewSchedule): Promise<ClassSchedule> {
+  if (input.endTime <= input.startTime) {
+    throw new HttpError(400, 'Classes must end after they start')
+  }
+  if (input.weekdays.length === 0 || input.weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new HttpError(400, '"weekdays" must list days from 0 (Sunday) to 6 (Saturday)')
+  }
+  if (input.lateCutoffMinutes !== null && input.lateCutoffMinutes < input.graceMinutes) {
+    throw new HttpError(400, 'The late cut-off cannot come before the end of the grace period')
+  }
+  const schedule: ClassSchedule = {
+    id: randomUUID(),
+    ...input,
+    weekdays: Array.from(new Set(input.weekdays)).sort((a, b) => a - b),
+    createdAt: new Date().toISOString(),
+  }
+  // Today's meeting, if any, is created straight away.
+  return updateDb(db => {
+    db.schedules.push(schedule)
+    applySchedules(db, new Date())
+    return schedule
+  })
+}
+
+/**
+ * Removes a schedule. Sessions already created from it are kept, as are
+ * their check-ins.
+ */
+export async function deleteSchedule(id: string): Promise<void> {
+  return updateDb(db => {
+    if (!db.schedules.some(s => s.id === id)) throw new HttpError(404, `Schedule ${id} not found`)
+    db.schedules = db.schedules.filter(s => s.id !== id)
+  })
+}
+
+/**
+ * Closes a session and records who was expected but never checked in.
+ * People whose status staff set by hand are left as they are.
+ */
+export function markClosed(db: Database, session: AttendanceSession, now: Date) {
+  const accounted = new Set([
+    ...db.checkIns.filter(c => c.sessionId === session.id).map(c => c.personId),
+    ...db.overrides.filter(o => o.sessionId === session.id).map(o => o.personId),
+  ])
+  session.status = 'closed'
+  session.closedAt = now.toISOString()
+  session.absentIds = db.people
+    .filter(person => isExpected(session, person.id) && !accounted.has(person.id))
+    .map(person => person.id)
+  for (const personId of session.absentIds) {
+    appendAudit(db, {
+      actor: SYSTEM_ACTOR,
+      automatic: true,
+      action: 'absent',
+      sessionId: session.id,
+      personId,
+      oldValue: null,
+      newValue: 'absent',
+      reason: 'Not checked in when the session closed',
+    })
+    queueWebhookEvent(db, 'person.absent', {
+      session: webhookSession(session),
+      personId,
+      name: db.people.find(person => person.id === personId)!.name,
+    }, now)
+  }
+  queueWebhookEvent(db, 'session.closed', {
+    session: webhookSession(session),
+    checkedIn: db.checkIns.filter(c => c.sessionId === session.id).length,
+    absentIds: session.absentIds,
+  }, now)
+}
+
+/**
+ * Brings scheduled sessions up to date with the clock: creates today's
+ * meetings, opens them shortly before they start and closes them when they
+ * end. Days the server never ran leave no session behind rather than a class
+ * full of absences, and a session that was never opened ends as missed, with
+ * no absences or webhooks. Returns the number of changes made.
+ */
+export function applySchedules(db: Database, now: Date): number {
+  let changes = 0
+  const today = localDate(now)
+
+  for (const schedule of db.schedules) {
+    if (!schedule.weekdays.includes(now.getDay())) continue
+    if (db.sessions.some(s => s.scheduleId === schedule.id && s.date === today)) continue
+    if (now >= sessionTime({ date: today }, schedule.endTime)) continue
+    db.sessions.push({
+      id: randomUUID(),
+      className: schedule.className,
+      date: today,
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      status: 'scheduled',
+      createdAt: now.toISOString(),
+      scheduleId: schedule.id,
+      graceMinutes: schedule.graceMinutes,
+      lateCutoffMinutes: schedule.lateCutoffMinutes,
+      expectedIds: schedule.expectedIds.length > 0 ? schedule.expectedIds : undefined,
+      teacherId: schedule.teacherId,
+    })
+    changes++
+  }
+
+  for (const session of db.sessions) {
+    if (!session.scheduleId || session.status === 'closed' || session.status === 'missed') continue
+    const schedule = db.schedules.find(s => s.id === session.scheduleId)
+    const end = sessionTime(session, session.endTime)
+    if (now >= end && session.status === 'scheduled') {
+      session.status = 'missed'
+      changes++
+    } else if (now >= end) {
+      markClosed(db, session, now)
+      changes++
+    } else if (session.status === 'scheduled' && schedule) {
+      const opensAt = sessionTime(session, session.startTime).getTime() - schedule.openBeforeMinutes * 60_000
+      if (now.getTime() >= opensAt) {
+        session.status = 'open'
+        session.openedAt = now.toISOString()
+        changes++
+      }
+    }
+  }
+  return changes
+}
+
+/**
+ * Applies the schedules to the stored sessions, writing only when something
+ * is due. Called before sessions are read or written, so no background timer
+ * is needed.
+ */
+export async function syncSchedules(now = new Date()): Promise<void> {
+  resumeDeliveries()
+  const db = await readDb()
+  if (applySchedules(structuredClone(db), now) === 0) return
+  await updateDb(current => {
+    applySchedules(current, now)
+  })
+}
@@ -0,0 +1,351 @@
+import { randomUUID } from 'crypto'
+import {
+  AttendanceOverride,
+  AttendanceSession,
+  CheckIn,
+  CheckInRecord,
+  OverrideStatus,
+  SessionStatus,
+  attendanceStatus,
+  checkInStatus,
+  isExpected,
+} from '@/lib/attendance'
+import { LIVE_RECOGNITION_ACTOR } from '@/lib/audit'
+import { appendAudit, saveSnapshot } from '@/lib/server/audit'
+import { Database, readDb, updateDb } from '@/lib/server/db'
+import { notifyMonitors } from '@/lib/server/monitoring'
+import { purgeIfDue } from '@/lib/server/retention'
+import { HttpError } from '@/lib/server/http'
+import { markClosed, syncSchedules } from '@/lib/server/schedules'
+import { queueWebhookEvent, webhookSession } from '@/lib/server/webhooks'
+
+export interface CheckInSource {
+  // Who or what recorded the check-in, for the audit log.
+  actor?: string
+  // JPEG of the recognized face.
+  snapshot?: Uint8Array
+  // Sent from a device's offline queue, possibly long after it was seen.
+  // The session may have closed in the meantime.
+  queued?: boolean
+  // Staff member who identified the person afterwards from faces kept as
+  // unknown. Accepted late like a queued check-in, and logged as their
+  // change.
+  identifiedBy?: string
+}
+
+// Who made a manual change and why.
+export interface ManualChange {
+  reason: string
+  by: string
+}
+
+export interface NewSession {
+  className: string
+  date: string
+  startTime: string
+  endTime: string
+  teacherId?: string
+}
+
+// Device clocks drift a little; sightings further ahead than this are
+// refused as being in the future.
+const MAX_CLOCK_SKEW_MS = 60_000
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/
+
+// Check-in and sighting times come from devices, and decide whether a late
+// check-in is accepted and how it is classified. Returned in the UTC form
+// the records are compared in.
+export const checkTimestamp = (timestamp: string, now: Date, field = 'timestamp'): string => {
+  const time = ISO_TIMESTAMP.test(timestamp) ? Date.parse(timestamp) : NaN
+  if (!Number.isFinite(time)) throw new HttpError(400, `"${field}" must be an ISO 8601 date and time`)
+  if (time > now.getTime() + MAX_CLOCK_SKEW_MS) throw new HttpError(400, `"${field}" is in the future`)
+  return new Date(time).toISOString()
+}
+
+const IDENTIFIED_REASON = 'Identified afterwards from faces the recognizer could not match'
+
+const findSession = (db: Database, id: string): AttendanceSession => {
+  const session = db.sessions.find(s => s.id === id)
+  if (!session) throw new HttpError(404, `Session ${id} not found`)
+  return session
+}
+
+// Whether a check-in happened while the session was open, whatever its
+// status now.
+export const seenWhileOpen = (session: AttendanceSession, timestamp: string) =>
+  session.openedAt !== undefined &&
+  timestamp >= session.openedAt &&
+  (session.closedAt === undefined || timestamp <= session.closedAt)
+
+export async function listSessions(status?: SessionStatus): Promise<AttendanceSession[]> {
+  await syncSchedules()
+  const db = await readDb()
+  const sessions = status ? db.sessions.filter(s => s.status === status) : db.sessions
+  return [...sessions].sort((a, b) =>
+    `${b.date} ${b.startTime}`.localeCompare(`${a.date} ${a.startTime}`))
+}
+
+export async function getSession(id: string): Promise<AttendanceSession> {
+  await syncSchedules()
+  return findSession(await readDb(), id)
+}
+
+export async function createSession(input: NewSession): Promise<AttendanceSession> {
+  if (input.endTime <= input.startTime) {
+    throw new HttpError(400, 'Session must end after it starts')
+  }
+  return updateDb(db => {
+    const session: AttendanceSession = {
+      id: randomUUID(),
+      ...input,
+      status: 'scheduled',
+      createdAt: new Date().toISOString(),
+    }
+    db.sessions.push(session)
+    return session
+  })
+}
+
+export async function openSession(id: string): Promise<AttendanceSession> {
+  return updateDb(db => {
+    const session = findSession(db, id)
+    if (session.status === 'closed') throw new HttpError(409, 'Session is already closed')
+    if (session.status === 'missed') throw new HttpError(409, 'Session ended without being opened')
+    if (session.status === 'scheduled') {
+      session.status = 'open'
+      session.openedAt = new Date().toISOString()
+    }
+    return session
+  })
+}
+
+export async function closeSession(id: string): Promise<AttendanceSession> {
+  return updateDb(db => {
+    const session = findSession(db, id)
+    // Nobody took attendance at a session that never opened, so no one is
+    // marked absent.
+    if (session.status === 'scheduled') session.status = 'missed'
+    else if (session.status === 'open') markClosed(db, session, new Date())
+    return session
+  })
+}
+
+export async function listCheckIns(sessionId: string): Promise<CheckInRecord[]> {
+  await syncSchedules()
+  const db = await readDb()
+  findSession(db, sessionId)
+  return db.checkIns.filter(c => c.sessionId === sessionId)
+}
+
+/**
+ * Records a check-in against an open session, classified as on time, late or
+ * too late by the session's rules. A person already checked in to the
+ * session keeps their first record, which is returned unchanged.
+ *
+ * Queued and identified check-ins are also accepted after the session
+ * closed, as long as they were seen while it was open, and one seen before
+ * the person's existing record replaces its time and status.
+ */
+export async function recordCheckIn(
+  sessionId: string,
+  checkIn: CheckIn,
+  source: CheckInSource = {},
+): Promise<CheckInRecord> {
+  await syncSchedules()
+  if (source.snapshot) {
+    purgeIfDue().catch(err => console.error('Error purging expired snapshots:', err))
+  }
+  const result = await updateDb(db => applyCheckIn(db, sessionId, checkIn, source))
+  notifyMonitors()
+  return result
+}
+
+/**
+ * The check-in half of `recordCheckIn`, within a database update, for
+ * callers that change more in the same transaction. The caller syncs
+ * schedules beforehand and notifies monitors afterwards.
+ */
+export async function applyCheckIn(
+  db: Database,
+  sessionId: string,
+  checkIn: CheckIn,
+  { actor = LIVE_RECOGNITION_ACTOR, snapshot, queued = false, identifiedBy }: CheckInSource = {},
+): Promise<CheckInRecord> {
+  const late = queued || identifiedBy !== undefined
+  checkIn = { ...checkIn, timestamp: checkTimestamp(checkIn.timestamp, new Date()) }
+  const session = findSession(db, sessionId)
+  if (session.status !== 'open' && !(late && seenWhileOpen(session, checkIn.timestamp))) {
+    throw new HttpError(409, 'Session is not open')
+  }
+
+  const existing = db.checkIns.find(c => c.sessionId === sessionId && c.personId === checkIn.personId)
+  if (existing) {
+    if (!late || existing.timestamp <= checkIn.timestamp) return existing
+    const previous = existing.status!
+    existing.timestamp = checkIn.timestamp
+    existing.confidence = checkIn.confidence
+    existing.status = checkInStatus(session, checkIn.timestamp)
+    appendAudit(db, {
+      actor: identifiedBy ?? actor,
+      automatic: identifiedBy === undefined,
+      action: 'check-in',
+      sessionId,
+      personId: existing.personId,
+      oldValue: previous,
+      newValue: existing.status,
+      reason: identifiedBy ? IDENTIFIED_REASON : 'Earlier sighting synced from an offline device',
+    })
+    queueWebhookEvent(db, 'checkin.recorded', { session: webhookSession(session), checkIn: existing })
+    return existing
+  }
+  // A late sync turns an absence recorded at closing into a check-in.
+  session.absentIds = session.absentIds?.filter(id => id !== checkIn.personId)
+
+  const record: CheckInRecord = {
+    id: randomUUID(),
+    sessionId,
+    ...checkIn,
+    status: checkInStatus(session, checkIn.timestamp),
+  }
+  db.checkIns.push(record)
+  const entry = appendAudit(db, {
+    actor: identifiedBy ?? actor,
+    automatic: identifiedBy === undefined,
+    action: 'check-in',
+    sessionId,
+    personId: record.personId,
+    oldValue: 'absent',
+    newValue: record.status!,
+    reason: identifiedBy ? IDENTIFIED_REASON : `Recognized with ${(record.confidence * 100).toFixed(0)}% confidence`,
+  }, snapshot !== undefined)
+  if (snapshot) await saveSnapshot(entry.id, snapshot)
+  queueWebhookEvent(db, 'checkin.recorded', { session: webhookSession(session), checkIn: record })
+  return record
+}
+
+export async function listOverrides(sessionId: string): Promise<AttendanceOverride[]> {
+  const db = await readDb()
+  findSession(db, sessionId)
+  return db.overrides.filter(o => o.sessionId === sessionId)
+}
+
+const currentStatus = (db: Database, session: AttendanceSession, personId: string) =>
+  attendanceStatus(
+    session,
+    db.checkIns.find(c => c.sessionId === session.id && c.personId === personId),
+    db.overrides.find(o => o.sessionId === session.id && o.personId === personId),
+  )
+
+/**
+ * Sets a person's status in a session by hand, or with a null status hands
+ * it back to recognition. Returns the override now in force, if any.
+ */
+export async function setOverride(
+  sessionId: string,
+  personId: string,
+  status: OverrideStatus | null,
+  { reason, by }: ManualChange,
+): Promise<AttendanceOverride | null> {
+  return updateDb(db => {
+    const session = findSession(db, sessionId)
+    const known = db.people.some(p => p.id === personId) ||
+      db.checkIns.some(c => c.sessionId === sessionId && c.personId === personId)
+    if (!known) throw new HttpError(404, `Person ${personId} not found`)
+
+    const oldValue = currentStatus(db, session, personId)
+    const hadOverride = db.overrides.some(o => o.sessionId === sessionId && o.personId === personId)
+    if (status === null && !hadOverride) return null
+
+    db.overrides = db.overrides.filter(o => !(o.sessionId === sessionId && o.personId === personId))
+    const override: AttendanceOverride | null = status === null
+      ? null
+      : { sessionId, personId, status, reason, by, updatedAt: new Date().toISOString() }
+    if (override) db.overrides.push(override)
+
+    appendAudit(db, {
+      actor: by,
+      automatic: false,
+      action: override ? 'override' : 'clear-override',
+      sessionId,
+      personId,
+      oldValue,
+      newValue: currentStatus(db, session, personId),
+      reason,
+    })
+    queueWebhookEvent(db, 'override.applied', {
+      session: webhookSession(session),
+      personId,
+      previousStatus: oldValue,
+      status: currentStatus(db, session, personId),
+      override,
+    })
+    return override
+  })
+}
+
+/**
+ * Moves a check-in recognized as the wrong person to the right one. If the
+ * right person was already checked in, their earlier record is kept and the
+ * other is dropped.
+ */
+export async function reassignCheckIn(
+  sessionId: string,
+  checkInId: string,
+  personId: string,
+  { reason, by }: ManualChange,
+): Promise<CheckInRecord> {
+  return updateDb(db => {
+    const session = findSession(db, sessionId)
+    const record = db.checkIns.find(c => c.sessionId === sessionId && c.id === checkInId)
+    if (!record) throw new HttpError(404, `Check-in ${checkInId} not found`)
+    const person = db.people.find(p => p.id === personId)
+    if (!person) throw new HttpError(404, `Person ${personId} not found`)
+    if (record.personId === personId) throw new HttpError(409, `The check-in is already for ${person.name}`)
+
+    const previousId = record.personId
+    const affected = [previousId, personId]
+    const before = affected.map(id => currentStatus(db, session, id))
+    const existing = db.checkIns.find(c => c.sessionId === sessionId && c.personId === personId)
+    let result: CheckInRecord
+    if (existing && existing.timestamp <= record.timestamp) {
+      db.checkIns = db.checkIns.filter(c => c !== record)
+      result = existing
+    } else {
+      if (existing) db.checkIns = db.checkIns.filter(c => c !== existing)
+      record.personId = person.id
+      record.name = person.name
+      result = record
+    }
+    // Keep the absences recorded at closing in line with who now has the
+    // check-in, by the same rule as markClosed.
+    if (session.status === 'closed') {
+      const accounted = db.checkIns.some(c => c.sessionId === sessionId && c.personId === previousId) ||
+        db.overrides.some(o => o.sessionId === sessionId && o.personId === previousId)
+      const absent = (session.absentIds ?? []).filter(id => id !== personId && id !== previousId)
+      if (!accounted && isExpected(session, previousId) && db.people.some(p => p.id === previousId)) {
+        absent.push(previousId)
+      }
+      session.absentIds = absent
+    }
+
+    appendAudit(db, {
+      actor: by,
+      automatic: false,
+      action: 'reassign',
+      sessionId,
+      personId,
+      oldValue: previousId,
+      newValue: personId,
+      reason,
+    })
+    // Both people's statuses may have changed.
+    affected.forEach((id, index) => queueWebhookEvent(db, 'override.applied', {
+      session: webhookSession(session),
+      personId: id,
+      previousStatus: before[index],
+      status: currentStatus(db, session, id),
+      override: db.overrides.find(o => o.sessionId === sessionId && o.personId === id) ?? null,
+    }))
+    return result
+  })
+}
@@ -0,0 +1,50 @@
+import { Principal } from '@/lib/auth'
+
+// Signed tokens are checked both in middleware, which runs on the Edge
+// runtime, and in route handlers, so this module only uses Web Crypto.
+const SECRET_VARIABLE = 'ATTENDANCE_AUTH_SECRET'
+
+// How long a sign-in lasts.
+export const SESSION_TTL_MS = 12 * 60 * 60_000
+
+const encoder = new TextEncoder()
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0))
+
+export const authSecret = (): string | null => process.env[SECRET_VARIABLE] || null
+
+export const missingSecretMessage = `Sign-in is unavailable: set ${SECRET_VARIABLE} on the server`
+
+const signingKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+
+/**
+ * Serializes a principal as `payload.signature`, both base64url encoded.
+ */
+export async function signToken(principal: Principal, secret: string): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(principal)))
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), encoder.encode(payload))
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+/**
+ * Returns the principal in a token if its signature is valid and it has not
+ * expired, or null otherwise.
+ */
+export async function verifyToken(token: string, secret: string, now = Date.now()): Promise<Principal | null> {
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) return null
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC', await signingKey(secret), fromBase64Url(signature), encoder.encode(payload))
+    if (!valid) return null
+    const principal = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Principal
+    return principal.exp === undefined || principal.exp > now ? principal : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,230 @@
+import { randomUUID } from 'crypto'
+import { CheckInRecord } from '@/lib/attendance'
+import { buildTemplate, compareDescriptors } from '@/lib/face-template'
+import { DEFAULT_MATCH_THRESHOLD, matchFace } from '@/lib/recognition'
+import { Person } from '@/lib/roster'
+import { ClusterIdentification, UnknownCluster, UnknownFace } from '@/lib/unknown-faces'
+import { deleteSnapshot, readSnapshot, saveSnapshot } from '@/lib/server/audit'
+import { Database, StoredUnknownFace, readDb, updateDb } from '@/lib/server/db'
+import { openJson, sealJson } from '@/lib/server/encryption'
+import { HttpError } from '@/lib/server/http'
+import { notifyMonitors } from '@/lib/server/monitoring'
+import { addTemplateSamples, listPeople, storePerson } from '@/lib/server/people'
+import { purgeIfDue } from '@/lib/server/retention'
+import { syncSchedules } from '@/lib/server/schedules'
+import { applyCheckIn, checkTimestamp, seenWhileOpen } from '@/lib/server/sessions'
+
+// A face joins the cluster whose average it is most similar to, if it
+// clears the same bar as a match against an enrolled template.
+const CLUSTER_THRESHOLD = DEFAULT_MATCH_THRESHOLD
+// Plenty to identify someone by. Later faces of the same person are dropped.
+const MAX_FACES_PER_CLUSTER = 12
+const MAX_FACES_PER_SESSION = 500
+
+export interface NewUnknownFace {
+  descriptor: number[]
+  quality: number
+  seenAt: string
+  capturedBy: string
+  // JPEG of the aligned crop.
+  snapshot?: Uint8Array
+}
+
+const toFace = (stored: StoredUnknownFace): UnknownFace => ({
+  id: stored.id,
+  sessionId: stored.sessionId,
+  clusterId: stored.clusterId,
+  seenAt: stored.seenAt,
+  quality: stored.quality,
+  capturedBy: stored.capturedBy,
+  hasSnapshot: stored.hasSnapshot,
+})
+
+const descriptorOf = (face: StoredUnknownFace) => openJson<number[]>(face.descriptor)
+
+// The session's unknown faces by cluster, oldest first.
+const clustersOf = (db: Database, sessionId: string): Map<string, StoredUnknownFace[]> => {
+  const clusters = new Map<string, StoredUnknownFace[]>()
+  db.unknownFaces
+    .filter(face => face.sessionId === sessionId)
+    .sort((a, b) => a.seenAt.localeCompare(b.seenAt))
+    .forEach(face => clusters.set(face.clusterId, [...(clusters.get(face.clusterId) ?? []), face]))
+  return clusters
+}
+
+// The faces of a cluster to act on: all of them, or the given subset.
+const selectFaces = (db: Database, sessionId: string, clusterId: string, faceIds?: string[]): StoredUnknownFace[] => {
+  const faces = clustersOf(db, sessionId).get(clusterId)
+  if (!faces) throw new HttpError(404, `Cluster ${clusterId} not found`)
+  if (!faceIds) return faces
+  const selected = faces.filter(face => faceIds.includes(face.id))
+  if (selected.length === 0) throw new HttpError(400, '"faceIds" must name at least one face of the cluster')
+  return selected
+}
+
+const removeFaces = (db: Database, faces: StoredUnknownFace[]) => {
+  const ids = new Set(faces.map(face => face.id))
+  db.unknownFaces = db.unknownFaces.filter(face => !ids.has(face.id))
+}
+
+// Once the faces are out of the database.
+const deleteFaceSnapshots = async (faces: StoredUnknownFace[]) => {
+  for (const face of faces) {
+    if (face.hasSnapshot) await deleteSnapshot(face.id)
+  }
+}
+
+/**
+ * Keeps a face nobody on the roster matched, in the cluster of the most
+ * similar earlier faces or in a new one. Returns null when the face was not
+ * kept because its cluster already holds enough of them.
+ */
+export async function addUnknownFace(sessionId: string, input: NewUnknownFace): Promise<UnknownFace | null> {
+  // Compared as strings against session and other face times.
+  const seenAt = checkTimestamp(input.seenAt, new Date(), 'seenAt')
+  if (input.snapshot) {
+    purgeIfDue().catch(err => console.error('Error purging expired snapshots:', err))
+  }
+  return updateDb(async db => {
+    const session = db.sessions.find(s => s.id === sessionId)
+    if (!session) throw new HttpError(404, `Session ${sessionId} not found`)
+    if (!seenWhileOpen(session, seenAt)) throw new HttpError(409, 'Session was not open when the face was seen')
+
+    const clusters = clustersOf(db, sessionId)
+    let stored = 0
+    let best: { clusterId: string; size: number; similarity: number } | null = null
+    for (const [clusterId, faces] of Array.from(clusters.entries())) {
+      stored += faces.length
+      const similarity = compareDescriptors(input.descriptor, buildTemplate(faces.map(descriptorOf)))
+      if (similarity >= CLUSTER_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { clusterId, size: faces.length, similarity }
+      }
+    }
+    if (best && best.size >= MAX_FACES_PER_CLUSTER) return null
+    if (stored >= MAX_FACES_PER_SESSION) {
+      throw new HttpError(409, `A session keeps at most ${MAX_FACES_PER_SESSION} unknown faces`)
+    }
+
+    const face: StoredUnknownFace = {
+      id: randomUUID(),
+      sessionId,
+      clusterId: best?.clusterId ?? randomUUID(),
+      seenAt,
+      quality: input.quality,
+      capturedBy: input.capturedBy,
+      hasSnapshot: input.snapshot !== undefined,
+      descriptor: sealJson(input.descriptor),
+    }
+    db.unknownFaces.push(face)
+    if (input.snapshot) await saveSnapshot(face.id, input.snapshot)
+    return toFace(face)
+  })
+}
+
+/**
+ * The session's unknown faces grouped by probable person, in the order they
+ * were first seen, each with the closest enrolled person as a suggestion.
+ */
+export async function listUnknownClusters(sessionId: string): Promise<UnknownCluster[]> {
+  const db = await readDb()
+  const clusters = clustersOf(db, sessionId)
+  if (clusters.size === 0) return []
+  const roster = await listPeople()
+  return Array.from(clusters.entries())
+    .map(([id, faces]) => {
+      const match = matchFace(buildTemplate(faces.map(descriptorOf)), roster, -1)
+      return {
+        id,
+        sessionId,
+        faces: faces.map(toFace),
+        firstSeen: faces[0].seenAt,
+        lastSeen: faces[faces.length - 1].seenAt,
+        suggestion: match && { personId: match.person.id, name: match.person.name, similarity: match.similarity },
+      }
+    })
+    .sort((a, b) => a.firstSeen.localeCompare(b.firstSeen))
+}
+
+export async function readUnknownFaceSnapshot(sessionId: string, faceId: string): Promise<Buffer> {
+  const db = await readDb()
+  if (!db.unknownFaces.some(face => face.sessionId === sessionId && face.id === faceId)) {
+    throw new HttpError(404, `Unknown face ${faceId} not found`)
+  }
+  return readSnapshot(faceId)
+}
+
+/**
+ * Settles a cluster as an enrolled person, or as someone new to enroll.
+ * The faces are added to the person's template, the person is checked in as
+ * of the first time they were seen, and the faces leave the review list.
+ */
+export async function identifyCluster(
+  sessionId: string,
+  clusterId: string,
+  { personId, newPerson, faceIds }: ClusterIdentification,
+  by: string,
+): Promise<{ person: Person; checkIn: CheckInRecord }> {
+  if (!personId === !newPerson) throw new HttpError(400, 'Give either "personId" or "newPerson"')
+  const faces = selectFaces(await readDb(), sessionId, clusterId, faceIds)
+  const targetId = personId ?? newPerson!.id
+  const existing = (await listPeople()).find(p => p.id === targetId)
+  if (personId && !existing) throw new HttpError(404, `Person ${personId} not found`)
+  if (newPerson && existing) throw new HttpError(409, `${targetId} is already enrolled as ${existing.name}`)
+
+  const descriptors = faces.map(descriptorOf)
+  const withSnapshot = faces.find(face => face.hasSnapshot)
+  // The snapshot may have been purged in the meantime.
+  const snapshot = withSnapshot ? await readSnapshot(withSnapshot.id).catch(() => undefined) : undefined
+  await syncSchedules()
+  if (snapshot) {
+    purgeIfDue().catch(err => console.error('Error purging expired snapshots:', err))
+  }
+
+  // One transaction, so a failure leaves the cluster to be identified again
+  // rather than a check-in without the enrollment or the other way round.
+  const result = await updateDb(async db => {
+    const current = new Set(db.unknownFaces.map(face => face.id))
+    if (!faces.every(face => current.has(face.id))) {
+      throw new HttpError(409, 'Some of these faces were already identified or discarded')
+    }
+    if (newPerson && db.people.some(p => p.id === targetId)) {
+      throw new HttpError(409, `${targetId} was enrolled in the meantime`)
+    }
+    const person = newPerson
+      ? storePerson(db, {
+        id: newPerson.id,
+        name: newPerson.name,
+        template: buildTemplate(descriptors),
+        sampleCount: descriptors.length,
+        enrolledAt: new Date().toISOString(),
+        consent: { givenBy: newPerson.consentGivenBy, givenAt: new Date().toISOString(), note: newPerson.consentNote },
+      })
+      : addTemplateSamples(db, targetId, descriptors)
+    removeFaces(db, faces)
+    // Last, as it saves the snapshot file.
+    const checkIn = await applyCheckIn(db, sessionId, {
+      personId: targetId,
+      name: existing?.name ?? newPerson!.name,
+      timestamp: faces[0].seenAt,
+      confidence: existing ? compareDescriptors(buildTemplate(descriptors), existing.template) : 1,
+    }, { snapshot, identifiedBy: by })
+    return { person, checkIn }
+  })
+  notifyMonitors()
+  await deleteFaceSnapshots(faces)
+  return result
+}
+
+/**
+ * Deletes a cluster's faces, or the given ones, without identifying them,
+ * for example when they show a visitor.
+ */
+export async function discardCluster(sessionId: string, clusterId: string, faceIds?: string[]): Promise<number> {
+  const faces = await updateDb(db => {
+    const selected = selectFaces(db, sessionId, clusterId, faceIds)
+    removeFaces(db, selected)
+    return selected
+  })
+  await deleteFaceSnapshots(faces)
+  return faces.length
+}
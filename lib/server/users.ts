@@ -0,0 +1,118 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import { KioskDevice, Principal, User, UserRole } from '@/lib/auth'
+import { StoredUser, readDb, updateDb } from '@/lib/server/db'
+import { HttpError } from '@/lib/server/http'
+import { SESSION_TTL_MS } from '@/lib/server/tokens'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+const KEY_BYTES = 64
+const MIN_PASSWORD_LENGTH = 10
+
+export interface NewUser {
+  username: string
+  name: string
+  role: UserRole
+  password: string
+}
+
+// Stored as `salt:hash`, both hex.
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, KEY_BYTES)
+  return `${salt.toString('hex')}:${hash.toString('hex')}`
+}
+
+async function checkPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':')
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+const toUser = (user: StoredUser): User => ({
+  id: user.id,
+  username: user.username,
+  name: user.name,
+  role: user.role,
+  createdAt: user.createdAt,
+})
+
+export async function listUsers(): Promise<User[]> {
+  const db = await readDb()
+  return db.users.map(toUser).sort((a, b) => a.username.localeCompare(b.username))
+}
+
+export async function hasUsers(): Promise<boolean> {
+  const db = await readDb()
+  return db.users.length > 0
+}
+
+/**
+ * Creates an account. With `onlyIfFirst`, fails unless no account exists
+ * yet, so the first admin can be set up without signing in.
+ */
+export async function createUser(input: NewUser, { onlyIfFirst = false } = {}): Promise<User> {
+  if (input.password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+  const username = input.username.toLowerCase()
+  const passwordHash = await hashPassword(input.password)
+  return updateDb(db => {
+    if (onlyIfFirst && db.users.length > 0) throw new HttpError(409, 'An account already exists; sign in instead')
+    if (db.users.some(u => u.username === username)) throw new HttpError(409, `Username ${username} is taken`)
+    const user: StoredUser = {
+      id: randomUUID(),
+      username,
+      name: input.name,
+      role: input.role,
+      createdAt: new Date().toISOString(),
+      passwordHash,
+    }
+    db.users.push(user)
+    return toUser(user)
+  })
+}
+
+export async function deleteUser(id: string, currentUserId: string): Promise<void> {
+  if (id === currentUserId) throw new HttpError(409, 'You cannot delete your own account')
+  return updateDb(db => {
+    if (!db.users.some(u => u.id === id)) throw new HttpError(404, `User ${id} not found`)
+    db.users = db.users.filter(u => u.id !== id)
+  })
+}
+
+/**
+ * Checks a username and password and returns the principal to sign into a
+ * session token.
+ */
+export async function login(username: string, password: string): Promise<Principal> {
+  const db = await readDb()
+  const user = db.users.find(u => u.username === username.toLowerCase())
+  if (!user || !(await checkPassword(password, user.passwordHash))) {
+    throw new HttpError(401, 'Wrong username or password')
+  }
+  return { sub: user.id, role: user.role, name: user.name, exp: Date.now() + SESSION_TTL_MS }
+}
+
+export async function listDevices(): Promise<KioskDevice[]> {
+  const db = await readDb()
+  return db.devices
+}
+
+export async function createDevice(name: string): Promise<KioskDevice> {
+  return updateDb(db => {
+    const device: KioskDevice = { id: randomUUID(), name, createdAt: new Date().toISOString() }
+    db.devices.push(device)
+    return device
+  })
+}
+
+// Deleting a device revokes its token.
+export async function deleteDevice(id: string): Promise<void> {
+  return updateDb(db => {
+    if (!db.devices.some(d => d.id === id)) throw new HttpError(404, `Device ${id} not found`)
+    db.devices = db.devices.filter(d => d.id !== id)
+  })
+}
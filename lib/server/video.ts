@@ -0,0 +1,47 @@
+import { spawn } from 'child_process'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { HttpError } from '@/lib/server/http'
+
+// Sample rate and cap for frames pulled out of an uploaded clip.
+const FRAMES_PER_SECOND = 1
+const MAX_FRAMES = 10
+
+/**
+ * Extracts still frames from a short video clip with the system `ffmpeg`.
+ * Clips are only supported where ffmpeg is installed on the server.
+ */
+export async function extractVideoFrames(video: Uint8Array): Promise<Uint8Array[]> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'attendance-video-'))
+  try {
+    const input = path.join(dir, 'input')
+    await fs.writeFile(input, video)
+
+    await new Promise<void>((resolve, reject) => {
+      const ffmpeg = spawn('ffmpeg', [
+        '-loglevel', 'error',
+        '-i', input,
+        '-vf', `fps=${FRAMES_PER_SECOND}`,
+        '-frames:v', String(MAX_FRAMES),
+        path.join(dir, 'frame-%03d.png'),
+      ])
+      let stderr = ''
+      ffmpeg.stderr.on('data', chunk => { stderr += chunk })
+      ffmpeg.on('error', err => {
+        reject((err as NodeJS.ErrnoException).code === 'ENOENT'
+          ? new HttpError(415, 'Video uploads need ffmpeg installed on the server')
+          : err)
+      })
+      ffmpeg.on('close', code => {
+        if (code === 0) resolve()
+        else reject(new HttpError(422, `Could not read the video: ${stderr.trim() || `ffmpeg exited with ${code}`}`))
+      })
+    })
+
+    const frames = (await fs.readdir(dir)).filter(name => name.startsWith('frame-')).sort()
+    return Promise.all(frames.map(name => fs.readFile(path.join(dir, name))))
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+}
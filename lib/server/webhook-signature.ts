@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// Signatures older than this are refused, so a captured request cannot be
+// replayed later.
+export const SIGNATURE_TOLERANCE_SECONDS = 300
+
+const digest = (secret: string, timestamp: number, body: string) =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+
+/**
+ * The value of the signature header for `body`, sent at `timestamp` (Unix
+ * seconds).
+ */
+export function signPayload(secret: string, body: string, timestamp: number): string {
+  return `t=${timestamp},v1=${digest(secret, timestamp, body)}`
+}
+
+/**
+ * Checks a signature header against the raw request body, as a receiver
+ * would. Fails if the signature is malformed, does not match or is older
+ * than the tolerance.
+ */
+export function verifySignature(
+  secret: string,
+  body: string,
+  header: string,
+  now = Date.now(),
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS,
+): boolean {
+  const parts = new Map(header.split(',').map(part => {
+    const index = part.indexOf('=')
+    return [part.slice(0, index).trim(), part.slice(index + 1).trim()] as [string, string]
+  }))
+  const timestamp = Number(parts.get('t'))
+  const signature = parts.get('v1')
+  if (!Number.isInteger(timestamp) || !signature || !/^[0-9a-f]{64}$/.test(signature)) return false
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false
+  return timingSafeEqual(Buffer.from(signature, 'hex'), Buffer.from(digest(secret, timestamp, body), 'hex'))
+}
@@ -0,0 +1,359 @@
+import { randomBytes, randomUUID } from 'crypto'
+import { AttendanceSession } from '@/lib/attendance'
+import { Database, StoredWebhook, readDb, updateDb } from '@/lib/server/db'
+import { HttpError } from '@/lib/server/http'
+import { signPayload } from '@/lib/server/webhook-signature'
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  TEST_EVENT,
+  WEBHOOK_EVENTS,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventData,
+  WebhookEventType,
+  WebhookSession,
+} from '@/lib/webhooks'
+
+// A failed delivery is retried after 30 seconds, then twice as long each
+// time, for about an hour in all before it is given up.
+const MAX_ATTEMPTS = 8
+const FIRST_RETRY_MS = 30_000
+const REQUEST_TIMEOUT_MS = 10_000
+// Deliveries sent at once per run.
+const BATCH_SIZE = 20
+// Finished deliveries beyond this many are dropped from the log, oldest
+// first.
+const MAX_LOGGED_DELIVERIES = 1000
+
+export interface WebhookInput {
+  url: string
+  events: WebhookEventType[]
+  description: string
+}
+
+export type WebhookChanges = Partial<WebhookInput & { active: boolean }>
+
+interface DeliveryState {
+  timer: ReturnType<typeof setTimeout> | null
+  // When the timer fires, in milliseconds since the epoch.
+  due: number
+  // Whether deliveries left pending by a previous run of the server have
+  // been picked up.
+  resumed: boolean
+}
+
+// One timer for the whole server, even when route handlers each get their
+// own copy of this module.
+const shared = globalThis as typeof globalThis & { attendanceWebhooks?: DeliveryState }
+const state = shared.attendanceWebhooks ??= { timer: null, due: Infinity, resumed: false }
+
+const toWebhook = (webhook: StoredWebhook): Webhook => ({
+  id: webhook.id,
+  url: webhook.url,
+  events: webhook.events,
+  description: webhook.description,
+  active: webhook.active,
+  createdAt: webhook.createdAt,
+})
+
+const newSecret = () => `whsec_${randomBytes(24).toString('base64url')}`
+
+const checkUrl = (url: string) => {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new HttpError(400, '"url" must be an absolute URL')
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new HttpError(400, '"url" must use http or https')
+  }
+}
+
+const checkEvents = (events: WebhookEventType[]) => {
+  if (events.length === 0) throw new HttpError(400, 'Choose at least one event')
+}
+
+// Reads the list of events a webhook listens to from a request body.
+export function requireEvents(body: Record<string, unknown>): WebhookEventType[] {
+  const events = body.events
+  if (!Array.isArray(events) || !events.every(event => WEBHOOK_EVENTS.includes(event))) {
+    throw new HttpError(400, `"events" must list events from ${WEBHOOK_EVENTS.join(', ')}`)
+  }
+  return events
+}
+
+const findWebhook = (db: Database, id: string): StoredWebhook => {
+  const webhook = db.webhooks.find(w => w.id === id)
+  if (!webhook) throw new HttpError(404, `Webhook ${id} not found`)
+  return webhook
+}
+
+export const webhookSession = ({ id, className, date, startTime, endTime, status }: AttendanceSession): WebhookSession =>
+  ({ id, className, date, startTime, endTime, status })
+
+export async function listWebhooks(): Promise<Webhook[]> {
+  const db = await readDb()
+  resumeDeliveries()
+  return db.webhooks.map(toWebhook)
+}
+
+// The secret is only returned here; a lost secret means creating the
+// webhook again.
+export async function createWebhook(input: WebhookInput): Promise<{ webhook: Webhook; secret: string }> {
+  checkUrl(input.url)
+  checkEvents(input.events)
+  const webhook: StoredWebhook = {
+    id: randomUUID(),
+    url: input.url,
+    events: Array.from(new Set(input.events)),
+    description: input.description,
+    active: true,
+    createdAt: new Date().toISOString(),
+    secret: newSecret(),
+  }
+  await updateDb(db => {
+    db.webhooks.push(webhook)
+  })
+  return { webhook: toWebhook(webhook), secret: webhook.secret }
+}
+
+/**
+ * Changes a webhook's URL, events, description or whether it is active.
+ * Deliveries already queued still go to the URL and secret in force when
+ * they are attempted.
+ */
+export async function updateWebhook(id: string, changes: WebhookChanges): Promise<Webhook> {
+  if (changes.url !== undefined) checkUrl(changes.url)
+  if (changes.events !== undefined) checkEvents(changes.events)
+  return updateDb(db => {
+    const webhook = findWebhook(db, id)
+    if (changes.url !== undefined) webhook.url = changes.url
+    if (changes.events !== undefined) webhook.events = Array.from(new Set(changes.events))
+    if (changes.description !== undefined) webhook.description = changes.description
+    if (changes.active !== undefined) webhook.active = changes.active
+    return toWebhook(webhook)
+  })
+}
+
+// Removes the webhook and its delivery log. Pending deliveries are dropped.
+export async function deleteWebhook(id: string): Promise<void> {
+  return updateDb(db => {
+    findWebhook(db, id)
+    db.webhooks = db.webhooks.filter(w => w.id !== id)
+    db.webhookDeliveries = db.webhookDeliveries.filter(d => d.webhookId !== id)
+  })
+}
+
+// Newest first.
+export async function listDeliveries(webhookId: string, limit = 50): Promise<WebhookDelivery[]> {
+  const db = await readDb()
+  findWebhook(db, webhookId)
+  return db.webhookDeliveries
+    .filter(d => d.webhookId === webhookId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit)
+}
+
+const newDelivery = (webhookId: string, event: WebhookEvent, now: Date): WebhookDelivery => ({
+  id: randomUUID(),
+  webhookId,
+  eventId: event.id,
+  event: event.type,
+  payload: JSON.stringify(event),
+  status: 'pending',
+  attempts: 0,
+  createdAt: now.toISOString(),
+  lastAttemptAt: null,
+  nextAttemptAt: now.toISOString(),
+  responseStatus: null,
+  error: null,
+})
+
+const trimLog = (db: Database) => {
+  const excess = db.webhookDeliveries.length - MAX_LOGGED_DELIVERIES
+  if (excess <= 0) return
+  const dropped = new Set(db.webhookDeliveries
+    .filter(d => d.status !== 'pending')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(0, excess))
+  db.webhookDeliveries = db.webhookDeliveries.filter(d => !dropped.has(d))
+}
+
+/**
+ * Queues an event for every active webhook listening to it, as part of the
+ * change that caused it: nothing is sent if the change fails. Sending starts
+ * once the change has been written.
+ */
+export function queueWebhookEvent<T extends WebhookEventType>(
+  db: Database,
+  type: T,
+  data: WebhookEventData[T],
+  now = new Date(),
+) {
+  const webhooks = db.webhooks.filter(w => w.active && w.events.includes(type))
+  if (webhooks.length === 0) return
+  const event: WebhookEvent<T> = { id: randomUUID(), type, createdAt: now.toISOString(), data }
+  for (const webhook of webhooks) db.webhookDeliveries.push(newDelivery(webhook.id, event, now))
+  trimLog(db)
+  scheduleDeliveries(Date.now())
+}
+
+/**
+ * Sends a test event to one webhook straight away and returns how the
+ * delivery went. A failed test is retried like any other delivery.
+ */
+export async function sendTestEvent(webhookId: string): Promise<WebhookDelivery> {
+  const now = new Date()
+  const delivery = await updateDb(db => {
+    findWebhook(db, webhookId)
+    const event: WebhookEvent<typeof TEST_EVENT> = {
+      id: randomUUID(),
+      type: TEST_EVENT,
+      createdAt: now.toISOString(),
+      data: { message: 'Test event from the attendance app' },
+    }
+    const delivery = newDelivery(webhookId, event, now)
+    db.webhookDeliveries.push(delivery)
+    trimLog(db)
+    return delivery
+  })
+  await deliverDue([delivery.id])
+  const db = await readDb()
+  scheduleNext(db)
+  return db.webhookDeliveries.find(d => d.id === delivery.id) ?? delivery
+}
+
+interface Attempt {
+  delivery: WebhookDelivery
+  url: string
+  secret: string
+}
+
+interface AttemptResult {
+  id: string
+  ok: boolean
+  responseStatus: number | null
+  error: string | null
+}
+
+async function attempt({ delivery, url, secret }: Attempt): Promise<AttemptResult> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'jud-attendance-webhooks',
+        [SIGNATURE_HEADER]: signPayload(secret, delivery.payload, Math.floor(Date.now() / 1000)),
+        [EVENT_HEADER]: delivery.event,
+        [DELIVERY_HEADER]: delivery.id,
+      },
+      body: delivery.payload,
+      // A redirect could leak the event to another host; receivers have to
+      // give the final URL.
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+    await response.body?.cancel()
+    return {
+      id: delivery.id,
+      ok: response.ok,
+      responseStatus: response.status,
+      error: response.ok ? null : `The receiver answered ${response.status}`,
+    }
+  } catch (err) {
+    const cause = err instanceof Error && err.cause instanceof Error ? `: ${err.cause.message}` : ''
+    return { id: delivery.id, ok: false, responseStatus: null, error: `${err instanceof Error ? err.message : String(err)}${cause}` }
+  }
+}
+
+/**
+ * Sends the pending deliveries that are due, or just `only` when given, and
+ * records the outcome. Deliveries are claimed for the length of a request
+ * first, so overlapping runs never send the same one twice.
+ */
+async function deliverDue(only?: string[]) {
+  const now = new Date()
+  const attempts = await updateDb(db => {
+    const lease = new Date(now.getTime() + 2 * REQUEST_TIMEOUT_MS).toISOString()
+    return db.webhookDeliveries
+      .filter(d => d.status === 'pending' && (only ? only.includes(d.id) : d.nextAttemptAt! <= now.toISOString()))
+      .slice(0, BATCH_SIZE)
+      .flatMap((delivery): Attempt[] => {
+        const webhook = db.webhooks.find(w => w.id === delivery.webhookId)
+        if (!webhook) return []
+        delivery.nextAttemptAt = lease
+        return [{ delivery: { ...delivery }, url: webhook.url, secret: webhook.secret }]
+      })
+  })
+  if (attempts.length === 0) return 0
+
+  const results = await Promise.all(attempts.map(attempt))
+  const finished = new Date()
+  await updateDb(db => {
+    for (const result of results) {
+      const delivery = db.webhookDeliveries.find(d => d.id === result.id)
+      // Deleted with its webhook while it was being sent.
+      if (!delivery) continue
+      delivery.attempts++
+      delivery.lastAttemptAt = finished.toISOString()
+      delivery.responseStatus = result.responseStatus
+      delivery.error = result.error
+      if (result.ok) {
+        delivery.status = 'delivered'
+        delivery.nextAttemptAt = null
+      } else if (delivery.attempts >= MAX_ATTEMPTS) {
+        delivery.status = 'failed'
+        delivery.nextAttemptAt = null
+      } else {
+        const backoff = FIRST_RETRY_MS * 2 ** (delivery.attempts - 1)
+        delivery.nextAttemptAt = new Date(finished.getTime() + backoff).toISOString()
+      }
+    }
+  })
+  return attempts.length
+}
+
+function scheduleDeliveries(at: number) {
+  if (state.timer && state.due <= at) return
+  if (state.timer) clearTimeout(state.timer)
+  state.due = at
+  state.timer = setTimeout(runDeliveries, Math.max(0, at - Date.now()))
+}
+
+// Sets the timer for the earliest pending delivery, if any.
+function scheduleNext(db: Database) {
+  const next = db.webhookDeliveries
+    .filter(d => d.status === 'pending')
+    .reduce((earliest, d) => Math.min(earliest, new Date(d.nextAttemptAt!).getTime()), Infinity)
+  if (next < Infinity) scheduleDeliveries(next)
+}
+
+async function runDeliveries() {
+  state.timer = null
+  state.due = Infinity
+  try {
+    // A full batch may mean more are already due.
+    let sent = BATCH_SIZE
+    while (sent === BATCH_SIZE) sent = await deliverDue()
+    scheduleNext(await readDb())
+  } catch (err) {
+    console.error('Error delivering webhooks:', err)
+    scheduleDeliveries(Date.now() + FIRST_RETRY_MS)
+  }
+}
+
+/**
+ * Picks up deliveries still pending from before the server restarted. Only
+ * the first call does anything.
+ */
+export function resumeDeliveries() {
+  if (state.resumed) return
+  state.resumed = true
+  readDb()
+    .then(scheduleNext)
+    .catch(err => console.error('Error resuming webhook deliveries:', err))
+}
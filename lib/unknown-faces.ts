@@ -0,0 +1,42 @@
+// A face seen during a session that matched nobody on the roster. Staff
+// review these afterwards, grouped into clusters that probably show the same
+// person.
+export interface UnknownFace {
+  id: string
+  sessionId: string
+  // Faces of the same probable person share a cluster.
+  clusterId: string
+  seenAt: string
+  quality: number
+  // Device or account that captured it.
+  capturedBy: string
+  hasSnapshot: boolean
+}
+
+export interface UnknownCluster {
+  id: string
+  sessionId: string
+  // Oldest first.
+  faces: UnknownFace[]
+  firstSeen: string
+  lastSeen: string
+  // Closest enrolled person, even when below the match threshold.
+  suggestion: { personId: string; name: string; similarity: number } | null
+}
+
+// Enrolling a cluster as someone not yet on the roster.
+export interface NewPersonFromCluster {
+  id: string
+  name: string
+  consentGivenBy: string
+  consentNote: string
+}
+
+export interface ClusterIdentification {
+  // Exactly one of these: an enrolled person, or someone to enroll.
+  personId?: string
+  newPerson?: NewPersonFromCluster
+  // Faces of the cluster to use; the others stay for review. All of them
+  // when omitted.
+  faceIds?: string[]
+}
@@ -0,0 +1,69 @@
+import { AttendanceOverride, AttendanceSession, AttendanceStatus, CheckInRecord } from '@/lib/attendance'
+
+export const WEBHOOK_EVENTS = ['checkin.recorded', 'session.closed', 'person.absent', 'override.applied'] as const
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number]
+
+// Sent only by the "send test event" button, whatever the webhook listens to.
+export const TEST_EVENT = 'webhook.test'
+
+// The session fields every event about a session carries.
+export type WebhookSession = Pick<AttendanceSession, 'id' | 'className' | 'date' | 'startTime' | 'endTime' | 'status'>
+
+export interface WebhookEventData {
+  'checkin.recorded': { session: WebhookSession; checkIn: CheckInRecord }
+  'session.closed': { session: WebhookSession; checkedIn: number; absentIds: string[] }
+  'person.absent': { session: WebhookSession; personId: string; name: string }
+  // `override` is null when staff handed the status back to recognition.
+  'override.applied': {
+    session: WebhookSession
+    personId: string
+    previousStatus: AttendanceStatus
+    status: AttendanceStatus
+    override: AttendanceOverride | null
+  }
+  [TEST_EVENT]: { message: string }
+}
+
+// The JSON body of every delivery.
+export interface WebhookEvent<T extends keyof WebhookEventData = keyof WebhookEventData> {
+  // Repeated on every attempt, so receivers can ignore duplicates.
+  id: string
+  type: T
+  createdAt: string
+  data: WebhookEventData[T]
+}
+
+export interface Webhook {
+  id: string
+  url: string
+  events: WebhookEventType[]
+  description: string
+  active: boolean
+  createdAt: string
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+export interface WebhookDelivery {
+  id: string
+  webhookId: string
+  eventId: string
+  event: keyof WebhookEventData
+  // The exact body sent.
+  payload: string
+  status: DeliveryStatus
+  attempts: number
+  createdAt: string
+  lastAttemptAt: string | null
+  // When a pending delivery is tried next.
+  nextAttemptAt: string | null
+  // HTTP status of the last attempt, or null if the receiver was not reached.
+  responseStatus: number | null
+  error: string | null
+}
+
+// `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, keyed with the
+// webhook's secret.
+export const SIGNATURE_HEADER = 'X-Attendance-Signature'
+export const EVENT_HEADER = 'X-Attendance-Event'
+export const DELIVERY_HEADER = 'X-Attendance-Delivery'
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Principal, SESSION_COOKIE } from '@/lib/auth'
+import { authSecret, missingSecretMessage, verifyToken } from '@/lib/server/tokens'
+
+// Reachable without signing in. The kiosk page asks for its device token
+// itself, and the first admin account is created through setup.
+const PUBLIC_PATHS = ['/login', '/kiosk', '/api/auth/login', '/api/auth/setup']
+
+// All a kiosk device may do: identify itself, load the roster and open
+// sessions, check people in, hand over faces it could not match and report
+// how its camera is doing.
+const KIOSK_API: { method: string; pattern: RegExp }[] = [
+  { method: 'GET', pattern: /^\/api\/auth\/me$/ },
+  { method: 'GET', pattern: /^\/api\/people$/ },
+  { method: 'GET', pattern: /^\/api\/sessions(\/[^/]+)?$/ },
+  { method: 'GET', pattern: /^\/api\/sessions\/[^/]+\/check-ins$/ },
+  { method: 'POST', pattern: /^\/api\/sessions\/[^/]+\/check-ins$/ },
+  { method: 'POST', pattern: /^\/api\/sessions\/[^/]+\/unknown-faces$/ },
+  { method: 'POST', pattern: /^\/api\/monitor\/status$/ },
+]
+
+// Settings only admins may change.
+const ADMIN_API = [/^\/api\/users/, /^\/api\/devices/, /^\/api\/retention/, /^\/api\/monitor$/, /^\/api\/webhooks/]
+const ADMIN_WRITE_API = [/^\/api\/people/, /^\/api\/schedules/]
+
+const allowed = (principal: Principal, method: string, path: string) => {
+  if (principal.role === 'admin') return true
+  if (principal.role === 'kiosk') return KIOSK_API.some(rule => rule.method === method && rule.pattern.test(path))
+  if (ADMIN_API.some(pattern => pattern.test(path))) return false
+  return method === 'GET' || !ADMIN_WRITE_API.some(pattern => pattern.test(path))
+}
+
+const deny = (status: number, error: string) => NextResponse.json({ error }, { status })
+
+/**
+ * Rejects requests without a valid session cookie or device token before
+ * they reach a page or route, and keeps each role to its part of the API.
+ * Route handlers repeat the checks that need the database, such as whether
+ * the account still exists and who a session belongs to.
+ */
+export async function middleware(request: NextRequest) {
+  const path = request.nextUrl.pathname
+  if (PUBLIC_PATHS.includes(path)) return NextResponse.next()
+
+  const isApi = path.startsWith('/api/')
+  const secret = authSecret()
+  if (!secret) {
+    return isApi ? deny(503, missingSecretMessage) : new NextResponse(missingSecretMessage, { status: 503 })
+  }
+
+  const bearer = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1]
+  const token = bearer ?? request.cookies.get(SESSION_COOKIE)?.value
+  const principal = token ? await verifyToken(token, secret) : null
+
+  if (!isApi) {
+    // Pages are for people; devices only use the kiosk page.
+    if (principal && principal.role !== 'kiosk') return NextResponse.next()
+    const login = new URL('/login', request.url)
+    login.searchParams.set('next', path)
+    return NextResponse.redirect(login)
+  }
+
+  if (!principal) return deny(401, 'Sign in to continue')
+  if (!allowed(principal, request.method, path)) return deny(403, 'You do not have access to this')
+  return NextResponse.next()
+}
+
+export const config = {
+  // Everything but Next.js assets and the face models.
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|models/).*)'],
+}
@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // tfjs-node loads a native binding that webpack cannot bundle.
+    serverComponentsExternalPackages: ['@tensorflow/tfjs-node'],
+  },
+};
 
 export default nextConfig;
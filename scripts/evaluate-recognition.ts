@@ -0,0 +1,196 @@
+import { readdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { parseArgs } from 'util'
+import {
+  EvaluationReport,
+  ProbeScores,
+  SkippedImage,
+  equalErrorRate,
+  recommendThreshold,
+  sweepThresholds,
+  thresholdRange,
+  worstConfusions,
+} from '@/lib/evaluation'
+import { DEFAULT_MIN_QUALITY } from '@/lib/face-quality'
+import { buildTemplate, compareDescriptors } from '@/lib/face-template'
+import { DEFAULT_MATCH_THRESHOLD } from '@/lib/recognition'
+import { detectFaces } from '@/lib/server/face-pipeline'
+import { HttpError } from '@/lib/server/http'
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.bmp', '.gif'])
+
+const USAGE = `Usage: npm run evaluate -- <dataset> [options]
+
+Runs every image in <dataset>/<person>/ through the server face pipeline,
+enrolls each person from their first images and matches the rest against
+everyone.
+
+Options:
+  --enroll <n>        Images per person used to build the template (default 1)
+  --min-quality <q>   Quality minimum, as for recognition (default ${DEFAULT_MIN_QUALITY})
+  --max-far <rate>    False accept rate the recommendation must stay within (default 0.01)
+  --from <t>          Lowest threshold in the sweep (default 0.5)
+  --to <t>            Highest threshold in the sweep (default 0.99)
+  --step <s>          Sweep step (default 0.01)
+  --top <n>           Worst confusions to list (default 10)
+  --out <file>        Where to write the JSON report (default evaluation-report.json)`
+
+const number = (value: string | undefined, fallback: number, name: string) => {
+  if (value === undefined) return fallback
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed)) throw new Error(`--${name} must be a number`)
+  return parsed
+}
+
+const percent = (rate: number) => `${(rate * 100).toFixed(2)}%`.padStart(8)
+
+// Descriptor of the one face the image is labeled with, or why there is none.
+// Where a photo catches someone in the background, the largest face is taken.
+async function describe(file: string, minQuality: number): Promise<number[] | string> {
+  let faces
+  try {
+    faces = await detectFaces(await readFile(file), minQuality)
+  } catch (err) {
+    if (err instanceof HttpError && err.status === 422) return 'unreadable image'
+    throw err
+  }
+  if (faces.length === 0) return 'no face found'
+  const face = faces.reduce((a, b) => (b.box.width * b.box.height > a.box.width * a.box.height ? b : a))
+  if (!face.descriptor || !face.quality) return 'facial landmarks could not be read'
+  if (!face.quality.passed) return `quality ${(face.quality.score * 100).toFixed(0)}% is below the minimum`
+  return face.descriptor
+}
+
+function printReport(report: EvaluationReport) {
+  const lines: string[] = []
+  lines.push(`${report.people} people, ${report.images} images, ${report.skipped.length} skipped, ${report.probes} probes`)
+  lines.push(`${report.genuineComparisons} genuine and ${report.impostorComparisons} impostor comparisons`)
+  lines.push('')
+  lines.push('Threshold       FAR       FRR  Misident.')
+  for (const result of report.sweep) {
+    const marks = [
+      result.threshold === report.recommended?.threshold ? 'recommended' : '',
+      result.threshold === report.equalErrorRate?.threshold ? 'EER' : '',
+      result.threshold === DEFAULT_MATCH_THRESHOLD ? 'default' : '',
+    ].filter(Boolean)
+    lines.push(
+      `${result.threshold.toFixed(2).padStart(9)}  ${percent(result.falseAcceptRate)}  ${percent(result.falseRejectRate)}` +
+      `   ${percent(result.misidentificationRate)}${marks.length > 0 ? `  <- ${marks.join(', ')}` : ''}`
+    )
+  }
+  lines.push('')
+  if (report.equalErrorRate) {
+    lines.push(`Equal error rate: ${percent(report.equalErrorRate.rate).trim()} at ${report.equalErrorRate.threshold.toFixed(2)}`)
+  }
+  if (report.recommended) {
+    lines.push(`Recommended threshold: ${report.recommended.threshold.toFixed(2)} (${report.recommended.reason})`)
+  }
+  if (report.confusions.length > 0) {
+    lines.push('')
+    lines.push('Worst confusions:')
+    for (const confusion of report.confusions) {
+      lines.push(`  ${confusion.similarity.toFixed(3)}  ${confusion.person} -> ${confusion.mistakenFor}  (${confusion.file})`)
+    }
+  }
+  if (report.skipped.length > 0) {
+    lines.push('')
+    lines.push('Skipped images:')
+    for (const skipped of report.skipped) lines.push(`  ${skipped.file}: ${skipped.reason}`)
+  }
+  console.log(lines.join('\n'))
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      enroll: { type: 'string' },
+      'min-quality': { type: 'string' },
+      'max-far': { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      step: { type: 'string' },
+      top: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  })
+  const [dataset] = positionals
+  if (values.help || !dataset) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+  const enrollImages = Math.max(1, Math.floor(number(values.enroll, 1, 'enroll')))
+  const minQuality = number(values['min-quality'], DEFAULT_MIN_QUALITY, 'min-quality')
+  const maxFalseAcceptRate = number(values['max-far'], 0.01, 'max-far')
+  const step = number(values.step, 0.01, 'step')
+  if (step <= 0) throw new Error('--step must be above 0')
+  const thresholds = thresholdRange(number(values.from, 0.5, 'from'), number(values.to, 0.99, 'to'), step)
+  const out = values.out ?? 'evaluation-report.json'
+
+  const folders = (await readdir(dataset, { withFileTypes: true }))
+    .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+    .map(entry => entry.name)
+    .sort()
+  if (folders.length < 2) throw new Error(`${dataset} needs a sub-folder for each of at least two people`)
+
+  const skipped: SkippedImage[] = []
+  const templates = new Map<string, number[]>()
+  const probes: { person: string; file: string; descriptor: number[] }[] = []
+  let images = 0
+  for (const person of folders) {
+    const files = (await readdir(path.join(dataset, person)))
+      .filter(name => IMAGE_EXTENSIONS.has(path.extname(name).toLowerCase()) && !name.startsWith('.'))
+      .sort()
+    const usable: { file: string; descriptor: number[] }[] = []
+    for (const name of files) {
+      const file = path.join(person, name)
+      images++
+      const result = await describe(path.join(dataset, file), minQuality)
+      if (typeof result === 'string') skipped.push({ person, file, reason: result })
+      else usable.push({ file, descriptor: result })
+    }
+    console.error(`${person}: ${usable.length} of ${files.length} images usable`)
+    if (usable.length < enrollImages) {
+      skipped.push({ person, file: person, reason: `fewer than ${enrollImages} usable images to enroll from` })
+      continue
+    }
+    templates.set(person, buildTemplate(usable.slice(0, enrollImages).map(u => u.descriptor)))
+    probes.push(...usable.slice(enrollImages).map(u => ({ person, ...u })))
+  }
+
+  const scored: ProbeScores[] = probes.map(probe => {
+    const scores: Record<string, number> = {}
+    templates.forEach((template, person) => {
+      scores[person] = compareDescriptors(probe.descriptor, template)
+    })
+    return { person: probe.person, file: probe.file, scores }
+  })
+  if (scored.length === 0) throw new Error(`No probe images left after enrolling ${enrollImages} per person`)
+
+  const sweep = sweepThresholds(scored, thresholds)
+  const report: EvaluationReport = {
+    generatedAt: new Date().toISOString(),
+    dataset: path.resolve(dataset),
+    settings: { enrollImages, minQuality, maxFalseAcceptRate },
+    people: templates.size,
+    images,
+    probes: scored.length,
+    genuineComparisons: scored.length,
+    impostorComparisons: scored.length * (templates.size - 1),
+    skipped,
+    sweep,
+    equalErrorRate: equalErrorRate(sweep),
+    recommended: recommendThreshold(sweep, maxFalseAcceptRate),
+    confusions: worstConfusions(scored, Math.max(0, Math.floor(number(values.top, 10, 'top')))),
+  }
+
+  printReport(report)
+  await writeFile(out, JSON.stringify(report, null, 2))
+  console.log(`\nJSON report written to ${out}`)
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,72 @@
+import { createServer } from 'http'
+import { parseArgs } from 'util'
+import { verifySignature } from '@/lib/server/webhook-signature'
+import { DELIVERY_HEADER, EVENT_HEADER, SIGNATURE_HEADER } from '@/lib/webhooks'
+
+const USAGE = `Usage: npm run webhook-receiver -- [options]
+
+Listens for webhook deliveries from the attendance app, checks their
+signatures and prints each event.
+
+Options:
+  --port <n>          Port to listen on (default 4010)
+  --secret <secret>   The webhook's signing secret (default: WEBHOOK_SECRET).
+                      Without it, signatures are not checked.
+  --fail <n>          Answer 500 to the first <n> deliveries, to watch retries`
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      secret: { type: 'string' },
+      fail: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  })
+  if (values.help) {
+    console.log(USAGE)
+    process.exit(0)
+  }
+  const port = Number(values.port ?? 4010)
+  let failures = Number(values.fail ?? 0)
+  if (!Number.isInteger(port) || !Number.isInteger(failures)) throw new Error('--port and --fail must be whole numbers')
+  const secret = values.secret ?? process.env.WEBHOOK_SECRET
+  if (!secret) console.error('No secret given: signatures are not checked.')
+
+  const server = createServer((request, response) => {
+    const chunks: Buffer[] = []
+    request.on('data', chunk => chunks.push(chunk))
+    request.on('end', () => {
+      // Signatures cover the raw body, so it is checked before parsing.
+      const body = Buffer.concat(chunks).toString('utf8')
+      const signature = request.headers[SIGNATURE_HEADER.toLowerCase()]
+      const valid = !secret || (typeof signature === 'string' && verifySignature(secret, body, signature))
+      const event = request.headers[EVENT_HEADER.toLowerCase()]
+      const delivery = request.headers[DELIVERY_HEADER.toLowerCase()]
+      console.log(`${new Date().toISOString()} ${request.method} ${request.url} ${event} delivery ${delivery}`)
+
+      let status = 204
+      if (!valid) {
+        console.log('  signature invalid, refused')
+        status = 401
+      } else if (failures > 0) {
+        failures--
+        console.log(`  answering 500 on purpose, ${failures} more to go`)
+        status = 500
+      } else {
+        try {
+          console.log(JSON.stringify(JSON.parse(body), null, 2))
+        } catch {
+          console.log(`  body is not JSON: ${body}`)
+        }
+      }
+      response.writeHead(status).end()
+    })
+  })
+  server.listen(port, () => console.log(`Listening on http://localhost:${port}/`))
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,48 @@
+import { FacePipeline } from '@/lib/face-pipeline'
+import { PipelineConfig, PipelineRequest, PipelineResponse } from '@/lib/pipeline-protocol'
+
+// The dom lib types `self` as a Window; narrow it to what a dedicated worker
+// actually offers.
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<PipelineRequest>) => void) | null
+  postMessage(message: PipelineResponse): void
+}
+
+let pipeline: FacePipeline | null = null
+// Configuration can arrive while the models are still loading.
+let config: PipelineConfig | null = null
+
+worker.onmessage = async (event) => {
+  const message = event.data
+  switch (message.type) {
+    case 'init':
+      try {
+        pipeline = await FacePipeline.load(message.backend)
+        if (config) pipeline.configure(config)
+        worker.postMessage({ type: 'ready', backend: pipeline.backend, failures: pipeline.failures })
+      } catch (err) {
+        console.error('Error loading the models:', err)
+        worker.postMessage({ type: 'error', message: `Error loading models: ${err}`, fatal: true })
+      }
+      break
+    case 'configure':
+      config = message.config
+      pipeline?.configure(config)
+      break
+    case 'reset':
+      pipeline?.reset(message.streamId)
+      break
+    case 'frame':
+      try {
+        if (!pipeline) throw new Error('Models are not loaded')
+        const result = await pipeline.process(message.streamId, message.frame, message.timestamp)
+        worker.postMessage({ type: 'result', streamId: message.streamId, result })
+      } catch (err) {
+        console.error('Error during face detection:', err)
+        worker.postMessage({ type: 'error', message: `Error: ${err}`, fatal: false, streamId: message.streamId })
+      } finally {
+        message.frame.close()
+      }
+      break
+  }
+}